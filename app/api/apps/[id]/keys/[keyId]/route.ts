@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  errorResponse,
+  verifyWalletAuth,
+  verifyAppOwnership,
+  corsHeaders,
+  corsResponse,
+  parseJsonBody,
+  zodValidationErrorResponse,
+} from '@/lib/api-utils';
+import { getApiKeyById, updateApiKey, deleteApiKey } from '@/lib/db';
+import { toApiKeyResponse } from '@/lib/api-keys';
+import { UpdateApiKeySchema, ErrorCodes, PUBLISHABLE_KEY_SCOPES } from '@/lib/types';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string; keyId: string }>;
+}
+
+export async function OPTIONS() {
+  return corsResponse();
+}
+
+// Get a specific API key
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, keyId } = await params;
+
+    const authResult = await verifyWalletAuth(request);
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { walletAddress } = authResult;
+    const isOwner = await verifyAppOwnership(walletAddress, id);
+
+    if (!isOwner) {
+      return errorResponse('App not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    const apiKeyRecord = await getApiKeyById(id, keyId);
+    if (!apiKeyRecord) {
+      return errorResponse('API key not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    const response = NextResponse.json(
+      { success: true, data: toApiKeyResponse(apiKeyRecord) },
+      { status: 200 }
+    );
+
+    Object.entries(corsHeaders()).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to get API key', error);
+    return errorResponse('Failed to get API key', ErrorCodes.INTERNAL_ERROR, 500);
+  }
+}
+
+// Rename an API key or change its scopes / expiry
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, keyId } = await params;
+
+    const authResult = await verifyWalletAuth(request);
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { walletAddress } = authResult;
+    const isOwner = await verifyAppOwnership(walletAddress, id);
+
+    if (!isOwner) {
+      return errorResponse('App not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    const body = await parseJsonBody(request);
+    if (!body) {
+      return errorResponse('Invalid JSON body', ErrorCodes.VALIDATION_ERROR, 400);
+    }
+
+    const parseResult = UpdateApiKeySchema.safeParse(body);
+    if (!parseResult.success) {
+      return zodValidationErrorResponse(parseResult.error, body, 422);
+    }
+
+    const { name, scopes, expiresAt } = parseResult.data;
+
+    if (scopes) {
+      const existing = await getApiKeyById(id, keyId);
+      if (!existing) {
+        return errorResponse('API key not found', ErrorCodes.NOT_FOUND, 404);
+      }
+
+      const disallowed = existing.type === 'publishable'
+        ? scopes.filter((scope) => !PUBLISHABLE_KEY_SCOPES.includes(scope))
+        : [];
+      if (disallowed.length > 0) {
+        return errorResponse(
+          `Publishable keys cannot have the ${disallowed.map((scope) => `'${scope}'`).join(', ')} scope`,
+          ErrorCodes.VALIDATION_ERROR,
+          422
+        );
+      }
+    }
+
+    const apiKeyRecord = await updateApiKey(id, keyId, {
+      name,
+      scopes,
+      expiresAt: expiresAt === undefined ? undefined : expiresAt ? new Date(expiresAt) : null,
+    });
+
+    if (!apiKeyRecord) {
+      return errorResponse('API key not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    const response = NextResponse.json(
+      { success: true, data: toApiKeyResponse(apiKeyRecord) },
+      { status: 200 }
+    );
+
+    Object.entries(corsHeaders()).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to update API key', error);
+    return errorResponse('Failed to update API key', ErrorCodes.INTERNAL_ERROR, 500);
+  }
+}
+
+// Delete (revoke) an API key
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, keyId } = await params;
+
+    const authResult = await verifyWalletAuth(request);
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { walletAddress } = authResult;
+    const isOwner = await verifyAppOwnership(walletAddress, id);
+
+    if (!isOwner) {
+      return errorResponse('App not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    const deleted = await deleteApiKey(id, keyId);
+    if (!deleted) {
+      return errorResponse('API key not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    logger.info('API key deleted', { appId: id, keyId, walletAddress });
+
+    const response = NextResponse.json(
+      { success: true, data: { deleted: true } },
+      { status: 200 }
+    );
+
+    Object.entries(corsHeaders()).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to delete API key', error);
+    return errorResponse('Failed to delete API key', ErrorCodes.INTERNAL_ERROR, 500);
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  errorResponse,
+  verifyWalletAuth,
+  verifyAppOwnership,
+  corsHeaders,
+  corsResponse,
+  parseJsonBody,
+  zodValidationErrorResponse,
+} from '@/lib/api-utils';
+import { createApiKey, getApiKeysByApp } from '@/lib/db';
+import { toApiKeyResponse } from '@/lib/api-keys';
+import { CreateApiKeySchema, ErrorCodes } from '@/lib/types';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Max API keys per app
+const MAX_API_KEYS_PER_APP = 20;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function OPTIONS() {
+  return corsResponse();
+}
+
+// List API keys for an app (secrets are never returned)
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const authResult = await verifyWalletAuth(request);
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { walletAddress } = authResult;
+    const isOwner = await verifyAppOwnership(walletAddress, id);
+
+    if (!isOwner) {
+      return errorResponse('App not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    const keys = await getApiKeysByApp(id);
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        data: keys.map(toApiKeyResponse),
+      },
+      { status: 200 }
+    );
+
+    Object.entries(corsHeaders()).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to list API keys', error);
+    return errorResponse('Failed to list API keys', ErrorCodes.INTERNAL_ERROR, 500);
+  }
+}
+
+// Create a named API key with scopes
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const authResult = await verifyWalletAuth(request);
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { walletAddress } = authResult;
+    const isOwner = await verifyAppOwnership(walletAddress, id);
+
+    if (!isOwner) {
+      return errorResponse('App not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    const existingKeys = await getApiKeysByApp(id);
+    if (existingKeys.length >= MAX_API_KEYS_PER_APP) {
+      return errorResponse(
+        `Maximum ${MAX_API_KEYS_PER_APP} API keys per app allowed`,
+        ErrorCodes.RATE_LIMIT_EXCEEDED,
+        429
+      );
+    }
+
+    const body = await parseJsonBody(request);
+    if (!body) {
+      return errorResponse(
+        'Invalid JSON body',
+        ErrorCodes.VALIDATION_ERROR,
+        400
+      );
+    }
+
+    const parseResult = CreateApiKeySchema.safeParse(body);
+    if (!parseResult.success) {
+      return zodValidationErrorResponse(parseResult.error, body, 422);
+    }
+
+    const { name, type, scopes, expiresAt } = parseResult.data;
+    const { apiKey, apiKeyRecord } = await createApiKey(
+      id,
+      name,
+      scopes,
+      expiresAt ? new Date(expiresAt) : undefined,
+      type
+    );
+
+    logger.info('API key created', { appId: id, keyId: apiKeyRecord.id, walletAddress });
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...toApiKeyResponse(apiKeyRecord),
+          apiKey,
+        },
+      },
+      { status: 201 }
+    );
+
+    Object.entries(corsHeaders()).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to create API key', error);
+    return errorResponse('Failed to create API key', ErrorCodes.INTERNAL_ERROR, 500);
+  }
+}
@@ -5,9 +5,12 @@ import {
   verifyAppOwnership,
   corsHeaders,
   corsResponse,
+  parseJsonBody,
+  zodValidationErrorResponse,
 } from '@/lib/api-utils';
 import { regenerateApiKey } from '@/lib/db';
-import { ErrorCodes } from '@/lib/types';
+import { toApiKeyResponse } from '@/lib/api-keys';
+import { RegenerateApiKeySchema, ErrorCodes } from '@/lib/types';
 import logger from '@/lib/logger';
 
 export const runtime = 'nodejs';
@@ -21,7 +24,9 @@ export async function OPTIONS() {
   return corsResponse();
 }
 
-// Regenerate API key for an app
+// Rotate an API key for an app (the app's oldest key unless `keyId` is given).
+// The old key keeps working for `gracePeriodSeconds` (default 24h); revoke it
+// early with DELETE /api/apps/[id]/keys/[keyId].
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
@@ -38,17 +43,43 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return errorResponse('App not found', ErrorCodes.NOT_FOUND, 404);
     }
 
-    const newApiKey = await regenerateApiKey(id);
-    if (!newApiKey) {
-      return errorResponse('App not found', ErrorCodes.NOT_FOUND, 404);
+    // The body is optional; an empty body regenerates the default key
+    const body = (await parseJsonBody(request)) ?? {};
+    const parseResult = RegenerateApiKeySchema.safeParse(body);
+    if (!parseResult.success) {
+      return zodValidationErrorResponse(parseResult.error, body, 422);
+    }
+
+    const { keyId, gracePeriodSeconds } = parseResult.data;
+    const regenerated = await regenerateApiKey(id, keyId, gracePeriodSeconds);
+    if (!regenerated) {
+      return errorResponse(
+        keyId ? 'API key not found or already rotated' : 'API key not found',
+        ErrorCodes.NOT_FOUND,
+        404
+      );
     }
 
-    logger.info('API key regenerated', { appId: id, walletAddress });
+    logger.info('API key regenerated', {
+      appId: id,
+      keyId: regenerated.apiKeyRecord.id,
+      previousKeyId: regenerated.previousKey?.id,
+      gracePeriodSeconds,
+      walletAddress,
+    });
 
     const response = NextResponse.json(
       {
         success: true,
-        data: { apiKey: newApiKey },
+        data: {
+          apiKey: regenerated.apiKey,
+          apiKeyPrefix: regenerated.apiKeyRecord.keyPrefix,
+          key: toApiKeyResponse(regenerated.apiKeyRecord),
+          // null when the old key was revoked immediately (gracePeriodSeconds: 0)
+          previousKey: regenerated.previousKey
+            ? toApiKeyResponse(regenerated.previousKey)
+            : null,
+        },
       },
       { status: 200 }
     );
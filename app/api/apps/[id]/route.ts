@@ -6,9 +6,11 @@ import {
   corsHeaders,
   corsResponse,
   parseJsonBody,
+  zodValidationErrorResponse,
 } from '@/lib/api-utils';
-import { getAppById, updateApp, deleteApp, regenerateApiKey } from '@/lib/db';
-import { ErrorCodes } from '@/lib/types';
+import { getAppById, updateApp, deleteApp, getApiKeysByApp } from '@/lib/db';
+import { toApiKeyResponse } from '@/lib/api-keys';
+import { ErrorCodes, UpdateAppSchema } from '@/lib/types';
 import logger from '@/lib/logger';
 
 export const runtime = 'nodejs';
@@ -44,14 +46,17 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return errorResponse('App not found', ErrorCodes.NOT_FOUND, 404);
     }
 
+    const apiKeys = await getApiKeysByApp(app.id);
+
     const response = NextResponse.json(
       {
         success: true,
         data: {
           id: app.id,
           name: app.name,
-          apiKey: app.apiKey,
+          apiKeys: apiKeys.map(toApiKeyResponse),
           vapidPublicKey: app.vapidPublicKey,
+          vapidKeyVersion: app.vapidKeyVersion,
           metadata: app.metadata,
           rateLimit: app.rateLimit,
           createdAt: app.createdAt.toISOString(),
@@ -89,16 +94,18 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       return errorResponse('App not found', ErrorCodes.NOT_FOUND, 404);
     }
 
-    const body = await parseJsonBody<{
-      name?: string;
-      metadata?: { description?: string; website?: string; iconUrl?: string };
-    }>(request);
+    const body = await parseJsonBody(request);
 
     if (!body) {
       return errorResponse('Invalid JSON body', ErrorCodes.VALIDATION_ERROR, 400);
     }
 
-    const app = await updateApp(id, body);
+    const parseResult = UpdateAppSchema.safeParse(body);
+    if (!parseResult.success) {
+      return zodValidationErrorResponse(parseResult.error, body, 422);
+    }
+
+    const app = await updateApp(id, parseResult.data);
     if (!app) {
       return errorResponse('App not found', ErrorCodes.NOT_FOUND, 404);
     }
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  errorResponse,
+  verifyWalletAuth,
+  verifyAppOwnership,
+  corsHeaders,
+  corsResponse,
+  parseJsonBody,
+  zodValidationErrorResponse,
+} from '@/lib/api-utils';
+import { deleteTemplate, getTemplateById, updateTemplate } from '@/lib/db';
+import { toTemplateResponse } from '@/lib/templates';
+import { UpdateTemplateSchema, ErrorCodes } from '@/lib/types';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string; templateId: string }>;
+}
+
+export async function OPTIONS() {
+  return corsResponse();
+}
+
+// Get a notification template
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, templateId } = await params;
+
+    const authResult = await verifyWalletAuth(request);
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { walletAddress } = authResult;
+    const isOwner = await verifyAppOwnership(walletAddress, id);
+
+    if (!isOwner) {
+      return errorResponse('App not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    const template = await getTemplateById(id, templateId);
+    if (!template) {
+      return errorResponse('Template not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    const response = NextResponse.json(
+      { success: true, data: toTemplateResponse(template) },
+      { status: 200 }
+    );
+
+    Object.entries(corsHeaders()).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to get template', error);
+    return errorResponse('Failed to get template', ErrorCodes.INTERNAL_ERROR, 500);
+  }
+}
+
+// Change a template's fields; null clears an optional one
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, templateId } = await params;
+
+    const authResult = await verifyWalletAuth(request);
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { walletAddress } = authResult;
+    const isOwner = await verifyAppOwnership(walletAddress, id);
+
+    if (!isOwner) {
+      return errorResponse('App not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    const body = await parseJsonBody(request);
+    if (!body) {
+      return errorResponse('Invalid JSON body', ErrorCodes.VALIDATION_ERROR, 400);
+    }
+
+    const parseResult = UpdateTemplateSchema.safeParse(body);
+    if (!parseResult.success) {
+      return zodValidationErrorResponse(parseResult.error, body, 422);
+    }
+
+    const template = await updateTemplate(id, templateId, parseResult.data);
+    if (!template) {
+      return errorResponse('Template not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    logger.info('Template updated', { appId: id, templateId, walletAddress });
+
+    const response = NextResponse.json(
+      { success: true, data: toTemplateResponse(template) },
+      { status: 200 }
+    );
+
+    Object.entries(corsHeaders()).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to update template', error);
+    return errorResponse('Failed to update template', ErrorCodes.INTERNAL_ERROR, 500);
+  }
+}
+
+// Delete a notification template
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, templateId } = await params;
+
+    const authResult = await verifyWalletAuth(request);
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { walletAddress } = authResult;
+    const isOwner = await verifyAppOwnership(walletAddress, id);
+
+    if (!isOwner) {
+      return errorResponse('App not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    const deleted = await deleteTemplate(id, templateId);
+    if (!deleted) {
+      return errorResponse('Template not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    logger.info('Template deleted', { appId: id, templateId, walletAddress });
+
+    const response = NextResponse.json(
+      { success: true, data: { deleted: true } },
+      { status: 200 }
+    );
+
+    Object.entries(corsHeaders()).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to delete template', error);
+    return errorResponse('Failed to delete template', ErrorCodes.INTERNAL_ERROR, 500);
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  errorResponse,
+  verifyWalletAuth,
+  verifyAppOwnership,
+  corsHeaders,
+  corsResponse,
+  parseJsonBody,
+  zodValidationErrorResponse,
+} from '@/lib/api-utils';
+import { countTemplatesByApp, createTemplate, getTemplatesByApp } from '@/lib/db';
+import { toTemplateResponse } from '@/lib/templates';
+import { CreateTemplateSchema, ErrorCodes } from '@/lib/types';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Max notification templates per app
+const MAX_TEMPLATES_PER_APP = 100;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function OPTIONS() {
+  return corsResponse();
+}
+
+// List an app's notification templates
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const authResult = await verifyWalletAuth(request);
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { walletAddress } = authResult;
+    const isOwner = await verifyAppOwnership(walletAddress, id);
+
+    if (!isOwner) {
+      return errorResponse('App not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    const templates = await getTemplatesByApp(id);
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        data: templates.map(toTemplateResponse),
+      },
+      { status: 200 }
+    );
+
+    Object.entries(corsHeaders()).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to list templates', error);
+    return errorResponse('Failed to list templates', ErrorCodes.INTERNAL_ERROR, 500);
+  }
+}
+
+// Create a notification template
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const authResult = await verifyWalletAuth(request);
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { walletAddress } = authResult;
+    const isOwner = await verifyAppOwnership(walletAddress, id);
+
+    if (!isOwner) {
+      return errorResponse('App not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    if (await countTemplatesByApp(id) >= MAX_TEMPLATES_PER_APP) {
+      return errorResponse(
+        `Maximum ${MAX_TEMPLATES_PER_APP} templates per app allowed`,
+        ErrorCodes.RATE_LIMIT_EXCEEDED,
+        429
+      );
+    }
+
+    const body = await parseJsonBody(request);
+    if (!body) {
+      return errorResponse(
+        'Invalid JSON body',
+        ErrorCodes.VALIDATION_ERROR,
+        400
+      );
+    }
+
+    const parseResult = CreateTemplateSchema.safeParse(body);
+    if (!parseResult.success) {
+      return zodValidationErrorResponse(parseResult.error, body, 422);
+    }
+
+    const template = await createTemplate(id, parseResult.data);
+
+    logger.info('Template created', { appId: id, templateId: template.id, walletAddress });
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        data: toTemplateResponse(template),
+      },
+      { status: 201 }
+    );
+
+    Object.entries(corsHeaders()).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to create template', error);
+    return errorResponse('Failed to create template', ErrorCodes.INTERNAL_ERROR, 500);
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  errorResponse,
+  verifyWalletAuth,
+  verifyAppOwnership,
+  corsHeaders,
+  corsResponse,
+  addRateLimitHeaders,
+  parseJsonBody,
+  quotaExceededResponse,
+  zodValidationErrorResponse,
+} from '@/lib/api-utils';
+import { getAppById } from '@/lib/db';
+import {
+  sendNotifications,
+  toSendResponse,
+  MAX_SYNC_RECIPIENTS,
+  QuotaExceededError,
+} from '@/lib/notifications';
+import { resolveSendRequest } from '@/lib/templates';
+import { SendNotificationSchema, ErrorCodes } from '@/lib/types';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function OPTIONS() {
+  return corsResponse();
+}
+
+// Send a notification from the dashboard (wallet auth, since the
+// dashboard no longer has the plaintext API key)
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const authResult = await verifyWalletAuth(request);
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { walletAddress } = authResult;
+    const isOwner = await verifyAppOwnership(walletAddress, id);
+
+    if (!isOwner) {
+      return errorResponse('App not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    const app = await getAppById(id);
+    if (!app) {
+      return errorResponse('App not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    const body = await parseJsonBody(request);
+    if (!body) {
+      return errorResponse(
+        'Invalid JSON body',
+        ErrorCodes.VALIDATION_ERROR,
+        400
+      );
+    }
+
+    const parseResult = SendNotificationSchema.safeParse(body);
+    if (!parseResult.success) {
+      return zodValidationErrorResponse(parseResult.error, body, 422);
+    }
+
+    if (parseResult.data.sendAt) {
+      return errorResponse(
+        'Test pushes cannot be scheduled; use /api/send',
+        ErrorCodes.VALIDATION_ERROR,
+        422
+      );
+    }
+
+    const resolved = await resolveSendRequest(app.id, parseResult.data);
+    if ('error' in resolved) {
+      return resolved.error;
+    }
+
+    const result = await sendNotifications(app, resolved.request);
+    if (!result) {
+      return errorResponse(
+        `Test pushes are limited to ${MAX_SYNC_RECIPIENTS} subscriptions; use /api/send for larger audiences`,
+        ErrorCodes.VALIDATION_ERROR,
+        422
+      );
+    }
+
+    logger.info('Test push sent', {
+      appId: app.id,
+      walletAddress,
+      sent: result.sent,
+      failed: result.failed,
+      retrying: result.retrying,
+      total: result.total,
+    });
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        data: toSendResponse(result),
+      },
+      { status: 200 }
+    );
+
+    Object.entries(corsHeaders()).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return addRateLimitHeaders(response, result.quota.limit, result.quota.remaining, result.quota.resetAt);
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResponse(error);
+    }
+
+    logger.error('Failed to send test push', error);
+    return errorResponse(
+      'Failed to send test push',
+      ErrorCodes.INTERNAL_ERROR,
+      500
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  errorResponse,
+  verifyWalletAuth,
+  verifyAppOwnership,
+  corsHeaders,
+  corsResponse,
+} from '@/lib/api-utils';
+import { deleteVapidKey } from '@/lib/db';
+import { ErrorCodes } from '@/lib/types';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string; version: string }>;
+}
+
+export async function OPTIONS() {
+  return corsResponse();
+}
+
+// Delete a retired VAPID key version. Refused while subscriptions still use
+// it unless `?force=true`, which deletes those subscriptions as well.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, version: versionParam } = await params;
+
+    const authResult = await verifyWalletAuth(request);
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { walletAddress } = authResult;
+    const isOwner = await verifyAppOwnership(walletAddress, id);
+
+    if (!isOwner) {
+      return errorResponse('App not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    const version = Number(versionParam);
+    if (!Number.isInteger(version) || version < 1) {
+      return errorResponse('VAPID key not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    const force = request.nextUrl.searchParams.get('force') === 'true';
+    const result = await deleteVapidKey(id, version, force);
+
+    if (!result.deleted) {
+      switch (result.reason) {
+        case 'not_found':
+          return errorResponse('VAPID key not found', ErrorCodes.NOT_FOUND, 404);
+        case 'active':
+          return errorResponse(
+            'The active VAPID key cannot be deleted; rotate to a new key first',
+            ErrorCodes.VAPID_KEY_IN_USE,
+            409
+          );
+        case 'in_use':
+          return errorResponse(
+            `${result.subscriptionCount} subscription(s) still use this key; pass ?force=true to delete them with it`,
+            ErrorCodes.VAPID_KEY_IN_USE,
+            409,
+            { subscriptionCount: result.subscriptionCount }
+          );
+      }
+    }
+
+    logger.info('VAPID key deleted', {
+      appId: id,
+      version,
+      deletedSubscriptions: result.deletedSubscriptions,
+      walletAddress,
+    });
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        data: { deleted: true, deletedSubscriptions: result.deletedSubscriptions },
+      },
+      { status: 200 }
+    );
+
+    Object.entries(corsHeaders()).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to delete VAPID key', error);
+    return errorResponse('Failed to delete VAPID key', ErrorCodes.INTERNAL_ERROR, 500);
+  }
+}
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  errorResponse,
+  verifyWalletAuth,
+  verifyAppOwnership,
+  corsHeaders,
+  corsResponse,
+  parseJsonBody,
+  zodValidationErrorResponse,
+} from '@/lib/api-utils';
+import { rotateVapidKeys, getVapidKeysWithUsage } from '@/lib/db';
+import { UpdateVapidKeysSchema, ErrorCodes } from '@/lib/types';
+import type { VapidKey, VapidKeyPair } from '@/lib/types';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function OPTIONS() {
+  return corsResponse();
+}
+
+function toVapidKeyResponse(vapidKey: VapidKey, subscriptionCount: number) {
+  return {
+    version: vapidKey.version,
+    publicKey: vapidKey.publicKey,
+    status: vapidKey.status,
+    subscriptionCount,
+    createdAt: vapidKey.createdAt.toISOString(),
+    retiredAt: vapidKey.retiredAt?.toISOString() ?? null,
+  };
+}
+
+// Make a new keypair the active one. Shared by POST (generate) and PUT (import).
+async function rotate(
+  request: NextRequest,
+  { params }: RouteParams,
+  importKeys: boolean
+): Promise<NextResponse> {
+  const { id } = await params;
+
+  const authResult = await verifyWalletAuth(request);
+  if ('error' in authResult) {
+    return authResult.error;
+  }
+
+  const { walletAddress } = authResult;
+  const isOwner = await verifyAppOwnership(walletAddress, id);
+
+  if (!isOwner) {
+    return errorResponse('App not found', ErrorCodes.NOT_FOUND, 404);
+  }
+
+  let vapidKeys: VapidKeyPair | undefined;
+  if (importKeys) {
+    const body = await parseJsonBody(request);
+    if (!body) {
+      return errorResponse('Invalid JSON body', ErrorCodes.VALIDATION_ERROR, 400);
+    }
+
+    const parseResult = UpdateVapidKeysSchema.safeParse(body);
+    if (!parseResult.success) {
+      return zodValidationErrorResponse(parseResult.error, body, 422);
+    }
+    vapidKeys = parseResult.data.vapidKeys;
+  }
+
+  const rotated = await rotateVapidKeys(id, vapidKeys);
+  if (!rotated) {
+    return errorResponse('App not found', ErrorCodes.NOT_FOUND, 404);
+  }
+
+  logger.info(importKeys ? 'VAPID keys imported' : 'VAPID keys rotated', {
+    appId: id,
+    version: rotated.vapidKey.version,
+    walletAddress,
+  });
+
+  const response = NextResponse.json(
+    {
+      success: true,
+      data: {
+        id: rotated.app.id,
+        vapidPublicKey: rotated.app.vapidPublicKey,
+        vapidKeyVersion: rotated.app.vapidKeyVersion,
+        updatedAt: rotated.app.updatedAt.toISOString(),
+      },
+    },
+    { status: 200 }
+  );
+
+  Object.entries(corsHeaders()).forEach(([key, value]) => {
+    response.headers.set(key, value);
+  });
+
+  return response;
+}
+
+// List VAPID key versions and how many subscriptions are still on each
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const authResult = await verifyWalletAuth(request);
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { walletAddress } = authResult;
+    const isOwner = await verifyAppOwnership(walletAddress, id);
+
+    if (!isOwner) {
+      return errorResponse('App not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    const keys = await getVapidKeysWithUsage(id);
+    const active = keys.find(({ vapidKey }) => vapidKey.status === 'active');
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        data: {
+          activeVersion: active?.vapidKey.version ?? null,
+          // When this reaches 0 the retired keys can be deleted safely
+          subscriptionsOnRetiredKeys: keys
+            .filter(({ vapidKey }) => vapidKey.status === 'retired')
+            .reduce((sum, { subscriptionCount }) => sum + subscriptionCount, 0),
+          keys: keys.map(({ vapidKey, subscriptionCount }) =>
+            toVapidKeyResponse(vapidKey, subscriptionCount)
+          ),
+        },
+      },
+      { status: 200 }
+    );
+
+    Object.entries(corsHeaders()).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to list VAPID keys', error);
+    return errorResponse('Failed to list VAPID keys', ErrorCodes.INTERNAL_ERROR, 500);
+  }
+}
+
+// Generate a new active VAPID keypair; the old one keeps serving its subscribers
+export async function POST(request: NextRequest, context: RouteParams) {
+  try {
+    return await rotate(request, context, false);
+  } catch (error) {
+    logger.error('Failed to rotate VAPID keys', error);
+    return errorResponse('Failed to rotate VAPID keys', ErrorCodes.INTERNAL_ERROR, 500);
+  }
+}
+
+// Import an existing VAPID keypair as the new active key
+export async function PUT(request: NextRequest, context: RouteParams) {
+  try {
+    return await rotate(request, context, true);
+  } catch (error) {
+    logger.error('Failed to update VAPID keys', error);
+    return errorResponse('Failed to update VAPID keys', ErrorCodes.INTERNAL_ERROR, 500);
+  }
+}
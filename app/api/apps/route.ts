@@ -5,7 +5,8 @@ import {
   corsHeaders,
   corsResponse,
 } from '@/lib/api-utils';
-import { getAppsByOwner } from '@/lib/db';
+import { getAppsByOwner, getApiKeysByApps } from '@/lib/db';
+import { toApiKeyResponse } from '@/lib/api-keys';
 import { ErrorCodes } from '@/lib/types';
 import logger from '@/lib/logger';
 
@@ -26,6 +27,7 @@ export async function GET(request: NextRequest) {
 
     const { walletAddress } = authResult;
     const apps = await getAppsByOwner(walletAddress);
+    const apiKeys = await getApiKeysByApps(apps.map((app) => app.id));
 
     const response = NextResponse.json(
       {
@@ -33,8 +35,11 @@ export async function GET(request: NextRequest) {
         data: apps.map((app) => ({
           id: app.id,
           name: app.name,
-          apiKey: app.apiKey,
+          apiKeys: apiKeys
+            .filter((key) => key.appId === app.id)
+            .map(toApiKeyResponse),
           vapidPublicKey: app.vapidPublicKey,
+          vapidKeyVersion: app.vapidKeyVersion,
           metadata: app.metadata,
           rateLimit: app.rateLimit,
           createdAt: app.createdAt.toISOString(),
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  errorResponse,
+  verifyWalletAuth,
+  corsHeaders,
+  corsResponse,
+} from '@/lib/api-utils';
+import { revokeAuthSession, revokeAuthSessionsByWallet } from '@/lib/db';
+import { SESSION_COOKIE_NAME } from '@/lib/session';
+import { ErrorCodes } from '@/lib/types';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function OPTIONS() {
+  return corsResponse();
+}
+
+// Revoke the current session, or every session for the wallet with ?all=true
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyWalletAuth(request);
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { walletAddress, sessionId } = authResult;
+    const revokeAll = request.nextUrl.searchParams.get('all') === 'true';
+
+    let revoked = 0;
+    if (revokeAll) {
+      revoked = await revokeAuthSessionsByWallet(walletAddress);
+    } else if (sessionId) {
+      revoked = (await revokeAuthSession(sessionId)) ? 1 : 0;
+    }
+
+    logger.info('Wallet signed out', { walletAddress, revokeAll, revoked });
+
+    const response = NextResponse.json(
+      { success: true, data: { revoked } },
+      { status: 200 }
+    );
+
+    response.cookies.delete(SESSION_COOKIE_NAME);
+
+    Object.entries(corsHeaders()).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to sign out', error);
+    return errorResponse('Failed to sign out', ErrorCodes.INTERNAL_ERROR, 500);
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { errorResponse, corsHeaders, corsResponse } from '@/lib/api-utils';
+import { createAuthNonce } from '@/lib/db';
+import { NONCE_TTL_SECONDS } from '@/lib/session';
+import { ErrorCodes } from '@/lib/types';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function OPTIONS() {
+  return corsResponse();
+}
+
+// Issue a single-use nonce for a Sign-In With Ethereum message
+export async function GET() {
+  try {
+    const { nonce, expiresAt } = await createAuthNonce(NONCE_TTL_SECONDS);
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        data: {
+          nonce,
+          expiresAt: expiresAt.toISOString(),
+        },
+      },
+      { status: 200 }
+    );
+
+    response.headers.set('Cache-Control', 'no-store');
+    Object.entries(corsHeaders()).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to create auth nonce', error);
+    return errorResponse(
+      'Failed to create nonce',
+      ErrorCodes.INTERNAL_ERROR,
+      500
+    );
+  }
+}
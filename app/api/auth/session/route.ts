@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  errorResponse,
+  verifyWalletAuth,
+  corsHeaders,
+  corsResponse,
+} from '@/lib/api-utils';
+import { ErrorCodes } from '@/lib/types';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function OPTIONS() {
+  return corsResponse();
+}
+
+// Get the wallet behind the current session
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyWalletAuth(request);
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        data: {
+          address: authResult.walletAddress,
+          sessionId: authResult.sessionId ?? null,
+        },
+      },
+      { status: 200 }
+    );
+
+    Object.entries(corsHeaders()).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to get session', error);
+    return errorResponse('Failed to get session', ErrorCodes.INTERNAL_ERROR, 500);
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  errorResponse,
+  corsHeaders,
+  corsResponse,
+  parseJsonBody,
+  zodValidationErrorResponse,
+} from '@/lib/api-utils';
+import { verifyWalletSignature } from '@/lib/auth';
+import { consumeAuthNonce, createAuthSession } from '@/lib/db';
+import {
+  SESSION_COOKIE_NAME,
+  SESSION_TTL_SECONDS,
+  NONCE_TTL_SECONDS,
+  createSessionToken,
+} from '@/lib/session';
+import { parseSiweMessage, validateSiweMessage } from '@/lib/siwe';
+import { SUPPORTED_CHAINS } from '@/lib/thirdweb';
+import { SiweVerifySchema, ErrorCodes } from '@/lib/types';
+import logger, { logAuthFailure } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function OPTIONS() {
+  return corsResponse();
+}
+
+// Verify a signed Sign-In With Ethereum message and start a session
+export async function POST(request: NextRequest) {
+  const ip = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
+
+  try {
+    const body = await parseJsonBody(request);
+    if (!body) {
+      return errorResponse(
+        'Invalid JSON body',
+        ErrorCodes.VALIDATION_ERROR,
+        400
+      );
+    }
+
+    const parseResult = SiweVerifySchema.safeParse(body);
+    if (!parseResult.success) {
+      return zodValidationErrorResponse(parseResult.error, body, 422);
+    }
+
+    const { message, signature } = parseResult.data;
+
+    const siwe = parseSiweMessage(message);
+    if (!siwe) {
+      return errorResponse(
+        'Invalid Sign-In With Ethereum message',
+        ErrorCodes.VALIDATION_ERROR,
+        422
+      );
+    }
+
+    const domain = process.env.SIWE_DOMAIN || request.headers.get('host') || '';
+    const rejection = validateSiweMessage(siwe, {
+      domain,
+      chainIds: SUPPORTED_CHAINS.map((chain) => chain.id),
+      maxAgeSeconds: NONCE_TTL_SECONDS,
+    });
+
+    if (rejection) {
+      logAuthFailure('Rejected SIWE message', ip, { siweError: rejection });
+      return errorResponse(rejection, ErrorCodes.UNAUTHORIZED, 401);
+    }
+
+    const validSignature = await verifyWalletSignature({
+      message,
+      signature,
+      address: siwe.address,
+      chainId: siwe.chainId,
+    });
+
+    if (!validSignature) {
+      logAuthFailure('Invalid SIWE signature', ip, { address: siwe.address });
+      return errorResponse('Invalid signature', ErrorCodes.UNAUTHORIZED, 401);
+    }
+
+    // Nonces are single-use: a replayed message fails here
+    const nonceAccepted = await consumeAuthNonce(siwe.nonce);
+    if (!nonceAccepted) {
+      logAuthFailure('Unknown or reused SIWE nonce', ip, { address: siwe.address });
+      return errorResponse('Invalid or expired nonce', ErrorCodes.UNAUTHORIZED, 401);
+    }
+
+    const session = await createAuthSession(siwe.address, siwe.chainId, SESSION_TTL_SECONDS);
+    const token = createSessionToken(session.id, session.walletAddress, session.expiresAt);
+
+    logger.info('Wallet signed in', {
+      walletAddress: session.walletAddress,
+      sessionId: session.id,
+      chainId: siwe.chainId,
+    });
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        data: {
+          address: session.walletAddress,
+          token,
+          expiresAt: session.expiresAt.toISOString(),
+        },
+      },
+      { status: 200 }
+    );
+
+    response.cookies.set(SESSION_COOKIE_NAME, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      expires: session.expiresAt,
+    });
+
+    Object.entries(corsHeaders()).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to verify SIWE login', error);
+    return errorResponse(
+      'Failed to verify login',
+      ErrorCodes.INTERNAL_ERROR,
+      500
+    );
+  }
+}
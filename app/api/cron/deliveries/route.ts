@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server';
+import { errorResponse, jsonResponse, verifyCronAuth } from '@/lib/api-utils';
+import { cleanupExpiredIdempotencyKeys } from '@/lib/db';
+import { drainDeliveryQueue } from '@/lib/notifications';
+import { ErrorCodes } from '@/lib/types';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+// Stop claiming new batches this long before the function is cut off
+const DRAIN_BUDGET_MS = (maxDuration - 15) * 1000;
+
+// Drain the notification delivery queue and drop expired idempotency keys.
+// Called every minute by Vercel Cron (vercel.json); any scheduler can POST
+// here with the same bearer secret.
+async function drain(request: NextRequest) {
+  const authResult = verifyCronAuth(request);
+  if ('error' in authResult) {
+    return authResult.error;
+  }
+
+  try {
+    const startedAt = Date.now();
+    const processed = await drainDeliveryQueue(startedAt + DRAIN_BUDGET_MS);
+    await cleanupExpiredIdempotencyKeys();
+
+    if (processed > 0) {
+      logger.info('Delivery queue drained', { processed, durationMs: Date.now() - startedAt });
+    }
+
+    return jsonResponse({ processed });
+  } catch (error) {
+    logger.error('Failed to drain delivery queue', error);
+    return errorResponse('Failed to drain delivery queue', ErrorCodes.INTERNAL_ERROR, 500);
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return drain(request);
+}
+
+export async function POST(request: NextRequest) {
+  return drain(request);
+}
@@ -0,0 +1,50 @@
+import { NextRequest } from 'next/server';
+import { errorResponse, jsonResponse, verifyCronAuth } from '@/lib/api-utils';
+import { dispatchScheduledNotifications, drainDeliveryQueue } from '@/lib/notifications';
+import { ErrorCodes } from '@/lib/types';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+// Stop starting new work this long before the function is cut off
+const DISPATCH_BUDGET_MS = (maxDuration - 15) * 1000;
+
+// Queue scheduled notifications that are due, then start pushing them
+// instead of waiting for the next /api/cron/deliveries run. Called every
+// minute by Vercel Cron (vercel.json).
+async function dispatch(request: NextRequest) {
+  const authResult = verifyCronAuth(request);
+  if ('error' in authResult) {
+    return authResult.error;
+  }
+
+  try {
+    const startedAt = Date.now();
+    const deadline = startedAt + DISPATCH_BUDGET_MS;
+    const dispatched = await dispatchScheduledNotifications(deadline);
+    const processed = dispatched > 0 ? await drainDeliveryQueue(deadline) : 0;
+
+    if (dispatched > 0) {
+      logger.info('Scheduled notifications dispatched', {
+        dispatched,
+        processed,
+        durationMs: Date.now() - startedAt,
+      });
+    }
+
+    return jsonResponse({ dispatched, processed });
+  } catch (error) {
+    logger.error('Failed to dispatch scheduled notifications', error);
+    return errorResponse('Failed to dispatch scheduled notifications', ErrorCodes.INTERNAL_ERROR, 500);
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return dispatch(request);
+}
+
+export async function POST(request: NextRequest) {
+  return dispatch(request);
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  errorResponse,
+  authenticateApiKey,
+  corsHeaders,
+  apiKeyHeaders,
+  corsResponse,
+  zodValidationErrorResponse,
+} from '@/lib/api-utils';
+import {
+  getDeliveriesByJob,
+  getDeliveryAttempts,
+  getDeliveryCountsByLocale,
+  getNotificationJobById,
+} from '@/lib/db';
+import { toDeliveryResponse, toNotificationResponse } from '@/lib/notifications';
+import { NotificationDeliveriesQuerySchema, ErrorCodes } from '@/lib/types';
+import type { DeliveryAttempt } from '@/lib/types';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return corsResponse(request.headers.get('origin'));
+}
+
+// A notification with its recipients and every push attempt made to them.
+// Filter with `userId`, `subscriptionId` or `status`; page with limit/offset.
+// Localized sends also get their recipients counted by variant.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const authResult = await authenticateApiKey(request, 'read');
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { app, apiKey, corsOrigin } = authResult;
+
+    const query = Object.fromEntries(request.nextUrl.searchParams);
+    const parseResult = NotificationDeliveriesQuerySchema.safeParse(query);
+    if (!parseResult.success) {
+      return zodValidationErrorResponse(parseResult.error, query, 422);
+    }
+
+    const job = await getNotificationJobById(app.id, id);
+    if (!job) {
+      return errorResponse('Notification not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    const { limit, offset, ...filters } = parseResult.data;
+    const deliveries = await getDeliveriesByJob(job.id, { ...filters, limit: limit + 1, offset });
+
+    const hasMore = deliveries.length > limit;
+    const page = deliveries.slice(0, limit);
+
+    const attemptsByDelivery = new Map<string, DeliveryAttempt[]>();
+    for (const attempt of await getDeliveryAttempts(page.map((d) => d.id))) {
+      const list = attemptsByDelivery.get(attempt.deliveryId) ?? [];
+      list.push(attempt);
+      attemptsByDelivery.set(attempt.deliveryId, list);
+    }
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...toNotificationResponse(job),
+          locales: job.localized ? await getDeliveryCountsByLocale(job.id) : null,
+          deliveries: page.map((d) => toDeliveryResponse(d, attemptsByDelivery.get(d.id) ?? [])),
+          pagination: { limit, offset, hasMore },
+        },
+      },
+      { status: 200 }
+    );
+
+    Object.entries({ ...corsHeaders(corsOrigin), ...apiKeyHeaders(apiKey) }).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to get notification', error);
+    return errorResponse(
+      'Failed to get notification',
+      ErrorCodes.INTERNAL_ERROR,
+      500
+    );
+  }
+}
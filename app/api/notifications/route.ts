@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  errorResponse,
+  authenticateApiKey,
+  corsHeaders,
+  apiKeyHeaders,
+  corsResponse,
+  zodValidationErrorResponse,
+} from '@/lib/api-utils';
+import { getNotificationJobsSince } from '@/lib/db';
+import {
+  decodeNotificationCursor,
+  encodeNotificationCursor,
+  toNotificationResponse,
+} from '@/lib/notifications';
+import { ListNotificationsQuerySchema, ErrorCodes } from '@/lib/types';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Without `since`, list the last day's notifications
+const DEFAULT_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+export async function OPTIONS(request: NextRequest) {
+  return corsResponse(request.headers.get('origin'));
+}
+
+// List notifications created after `since`, oldest first. `userId` limits
+// the list to notifications queued for that user. Page through by passing
+// `nextCursor` back as `cursor`.
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateApiKey(request, 'read');
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { app, apiKey, corsOrigin } = authResult;
+
+    const query = Object.fromEntries(request.nextUrl.searchParams);
+    const parseResult = ListNotificationsQuerySchema.safeParse(query);
+    if (!parseResult.success) {
+      return zodValidationErrorResponse(parseResult.error, query, 422);
+    }
+
+    const { since, cursor, userId, limit } = parseResult.data;
+
+    const after = cursor ? decodeNotificationCursor(cursor) : undefined;
+    if (after === null) {
+      return errorResponse('Invalid cursor', ErrorCodes.VALIDATION_ERROR, 422);
+    }
+
+    const page = await getNotificationJobsSince(
+      app.id,
+      since ? new Date(since) : new Date(Date.now() - DEFAULT_LOOKBACK_MS),
+      { userId, after, limit }
+    );
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        data: {
+          notifications: page.jobs.map(toNotificationResponse),
+          hasMore: page.nextCursor !== null,
+          nextCursor: page.nextCursor ? encodeNotificationCursor(page.nextCursor) : null,
+        },
+      },
+      { status: 200 }
+    );
+
+    Object.entries({ ...corsHeaders(corsOrigin), ...apiKeyHeaders(apiKey) }).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to list notifications', error);
+    return errorResponse(
+      'Failed to list notifications',
+      ErrorCodes.INTERNAL_ERROR,
+      500
+    );
+  }
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  errorResponse,
+  authenticateApiKey,
+  corsHeaders,
+  apiKeyHeaders,
+  corsResponse,
+  parseJsonBody,
+  zodValidationErrorResponse,
+} from '@/lib/api-utils';
+import {
+  getNotificationJobById,
+  updateScheduledNotificationJob,
+  type ScheduledNotificationUpdate,
+} from '@/lib/db';
+import { toNotificationResponse } from '@/lib/notifications';
+import { RescheduleNotificationSchema, ErrorCodes } from '@/lib/types';
+import type { ApiKey, NotificationJob } from '@/lib/types';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return corsResponse(request.headers.get('origin'));
+}
+
+function notificationResponse(job: NotificationJob, apiKey: ApiKey, corsOrigin: string | null) {
+  const response = NextResponse.json(
+    { success: true, data: toNotificationResponse(job) },
+    { status: 200 }
+  );
+
+  Object.entries({ ...corsHeaders(corsOrigin), ...apiKeyHeaders(apiKey) }).forEach(([key, value]) => {
+    response.headers.set(key, value);
+  });
+
+  return response;
+}
+
+// Errors for a reschedule or cancel that did not apply
+function updateErrorResponse(result: Exclude<ScheduledNotificationUpdate, { updated: true }>) {
+  if (result.reason === 'not_found') {
+    return errorResponse('Scheduled notification not found', ErrorCodes.NOT_FOUND, 404);
+  }
+  return errorResponse(
+    `Notification is no longer scheduled (status: ${result.status})`,
+    ErrorCodes.NOTIFICATION_NOT_SCHEDULED,
+    409,
+    { status: result.status }
+  );
+}
+
+// Get a scheduled notification. Once dispatched it keeps its sendAt and
+// shows the queue status; see GET /api/notifications/[id] for recipients.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const authResult = await authenticateApiKey(request, 'read');
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { app, apiKey, corsOrigin } = authResult;
+
+    const job = await getNotificationJobById(app.id, id);
+    if (!job || !job.sendAt) {
+      return errorResponse('Scheduled notification not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    return notificationResponse(job, apiKey, corsOrigin);
+  } catch (error) {
+    logger.error('Failed to get scheduled notification', error);
+    return errorResponse(
+      'Failed to get scheduled notification',
+      ErrorCodes.INTERNAL_ERROR,
+      500
+    );
+  }
+}
+
+// Move a scheduled notification to a new sendAt
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const authResult = await authenticateApiKey(request, 'send');
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { app, apiKey, corsOrigin } = authResult;
+
+    const body = await parseJsonBody(request);
+    if (!body) {
+      return errorResponse('Invalid JSON body', ErrorCodes.VALIDATION_ERROR, 400);
+    }
+
+    const parseResult = RescheduleNotificationSchema.safeParse(body);
+    if (!parseResult.success) {
+      return zodValidationErrorResponse(parseResult.error, body, 422);
+    }
+
+    const result = await updateScheduledNotificationJob(app.id, id, {
+      sendAt: new Date(parseResult.data.sendAt),
+    });
+    if (!result.updated) {
+      return updateErrorResponse(result);
+    }
+
+    logger.info('Rescheduled notification', {
+      appId: app.id,
+      notificationId: id,
+      sendAt: parseResult.data.sendAt,
+    });
+
+    return notificationResponse(result.job, apiKey, corsOrigin);
+  } catch (error) {
+    logger.error('Failed to reschedule notification', error);
+    return errorResponse(
+      'Failed to reschedule notification',
+      ErrorCodes.INTERNAL_ERROR,
+      500
+    );
+  }
+}
+
+// Cancel a scheduled notification. It is kept with status `canceled`.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const authResult = await authenticateApiKey(request, 'send');
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { app, apiKey, corsOrigin } = authResult;
+
+    const result = await updateScheduledNotificationJob(app.id, id, { cancel: true });
+    if (!result.updated) {
+      return updateErrorResponse(result);
+    }
+
+    logger.info('Canceled scheduled notification', { appId: app.id, notificationId: id });
+
+    return notificationResponse(result.job, apiKey, corsOrigin);
+  } catch (error) {
+    logger.error('Failed to cancel scheduled notification', error);
+    return errorResponse(
+      'Failed to cancel scheduled notification',
+      ErrorCodes.INTERNAL_ERROR,
+      500
+    );
+  }
+}
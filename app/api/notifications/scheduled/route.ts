@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  errorResponse,
+  authenticateApiKey,
+  corsHeaders,
+  apiKeyHeaders,
+  corsResponse,
+  zodValidationErrorResponse,
+} from '@/lib/api-utils';
+import { getScheduledNotificationJobs } from '@/lib/db';
+import { toNotificationResponse } from '@/lib/notifications';
+import { ListScheduledNotificationsQuerySchema, ErrorCodes } from '@/lib/types';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function OPTIONS(request: NextRequest) {
+  return corsResponse(request.headers.get('origin'));
+}
+
+// List notifications still waiting for their sendAt, soonest first
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateApiKey(request, 'read');
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { app, apiKey, corsOrigin } = authResult;
+
+    const query = Object.fromEntries(request.nextUrl.searchParams);
+    const parseResult = ListScheduledNotificationsQuerySchema.safeParse(query);
+    if (!parseResult.success) {
+      return zodValidationErrorResponse(parseResult.error, query, 422);
+    }
+
+    const { limit, offset } = parseResult.data;
+    const jobs = await getScheduledNotificationJobs(app.id, { limit: limit + 1, offset });
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        data: {
+          notifications: jobs.slice(0, limit).map(toNotificationResponse),
+          pagination: { limit, offset, hasMore: jobs.length > limit },
+        },
+      },
+      { status: 200 }
+    );
+
+    Object.entries({ ...corsHeaders(corsOrigin), ...apiKeyHeaders(apiKey) }).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to list scheduled notifications', error);
+    return errorResponse(
+      'Failed to list scheduled notifications',
+      ErrorCodes.INTERNAL_ERROR,
+      500
+    );
+  }
+}
@@ -56,15 +56,16 @@ export async function POST(request: NextRequest) {
       return zodValidationErrorResponse(parseResult.error, body, 422);
     }
 
-    const { name, metadata } = parseResult.data;
+    const { name, metadata, vapidKeys } = parseResult.data;
 
-    // Create the app with VAPID keys
-    const app = await createApp(walletAddress, name, metadata);
+    // Create the app with the supplied VAPID keys, or fresh ones
+    const { app, apiKey, apiKeyRecord } = await createApp(walletAddress, name, metadata, vapidKeys);
 
     logger.info('App registered', {
       appId: app.id,
       walletAddress,
       name,
+      importedVapidKeys: !!vapidKeys,
     });
 
     const response = NextResponse.json(
@@ -73,8 +74,11 @@ export async function POST(request: NextRequest) {
         data: {
           id: app.id,
           name: app.name,
-          apiKey: app.apiKey,
+          apiKey,
+          apiKeyId: apiKeyRecord.id,
+          apiKeyPrefix: apiKeyRecord.keyPrefix,
           vapidPublicKey: app.vapidPublicKey,
+          vapidKeyVersion: app.vapidKeyVersion,
           createdAt: app.createdAt.toISOString(),
         },
       },
@@ -3,30 +3,143 @@ import {
   errorResponse,
   authenticateApiKey,
   corsHeaders,
+  apiKeyHeaders,
+  addRateLimitHeaders,
   corsResponse,
   parseJsonBody,
+  quotaExceededResponse,
   zodValidationErrorResponse,
 } from '@/lib/api-utils';
-import { sendNotifications } from '@/lib/notifications';
+import {
+  enqueueNotification,
+  sendNotifications,
+  toSendResponse,
+  hashPayload,
+  MAX_SYNC_RECIPIENTS,
+  QuotaExceededError,
+  type NotificationQuota,
+} from '@/lib/notifications';
+import { resolveSendRequest } from '@/lib/templates';
+import {
+  releaseIdempotencyKey,
+  reserveIdempotencyKey,
+  saveIdempotentResponse,
+} from '@/lib/db';
 import { SendNotificationSchema, ErrorCodes } from '@/lib/types';
+import type { ApiKey, App, SendNotificationRequest } from '@/lib/types';
 import logger from '@/lib/logger';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
+// Responses are kept this long for requests with an Idempotency-Key
+const IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+// A reservation without a response after this long belongs to a request
+// that died; the key can then be used again
+const IDEMPOTENCY_STALE_SECONDS = 5 * 60;
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
 export async function OPTIONS() {
   return corsResponse();
 }
 
+function sendResponse(
+  apiKey: ApiKey,
+  status: number,
+  data: unknown,
+  replayed = false,
+  quota?: NotificationQuota
+) {
+  const response = NextResponse.json({ success: true, data }, { status });
+
+  Object.entries({ ...corsHeaders(), ...apiKeyHeaders(apiKey) }).forEach(([key, value]) => {
+    response.headers.set(key, value);
+  });
+  if (replayed) {
+    response.headers.set('Idempotent-Replayed', 'true');
+  }
+  if (quota) {
+    addRateLimitHeaders(response, quota.limit, quota.remaining, quota.resetAt);
+  }
+
+  return response;
+}
+
+// Render the template, if any, then queue or push the notification.
+// Returns the success status and body with the quota left, or an error
+// response.
+async function send(
+  app: App,
+  apiKey: ApiKey,
+  body: SendNotificationRequest,
+  sync: boolean
+): Promise<{ status: number; data: unknown; quota: NotificationQuota } | NextResponse> {
+  const resolved = await resolveSendRequest(app.id, body);
+  if ('error' in resolved) {
+    return resolved.error;
+  }
+
+  const { request } = resolved;
+  if (!sync) {
+    const { job, quota } = await enqueueNotification(app, request, apiKey.id);
+    return {
+      status: 202,
+      data: {
+        notificationId: job.id,
+        status: job.status,
+        total: job.total,
+        sendAt: job.sendAt?.toISOString() ?? null,
+      },
+      quota,
+    };
+  }
+
+  const result = await sendNotifications(app, request, apiKey.id);
+  if (!result) {
+    return errorResponse(
+      `Synchronous sends are limited to ${MAX_SYNC_RECIPIENTS} recipients; omit ?sync=true to queue this notification`,
+      ErrorCodes.VALIDATION_ERROR,
+      422
+    );
+  }
+
+  logger.info('Notifications sent', {
+    appId: app.id,
+    notificationId: result.notificationId,
+    sent: result.sent,
+    failed: result.failed,
+    retrying: result.retrying,
+    total: result.total,
+  });
+
+  return { status: 200, data: toSendResponse(result), quota: result.quota };
+}
+
+// Queues the notification and answers 202 with its id; a worker pushes it
+// (app/api/cron/deliveries). `?sync=true` pushes within the request and
+// answers with the sent/failed counts, for sends up to MAX_SYNC_RECIPIENTS.
+// With a `sendAt` the notification is stored and queued at that time.
+//
+// With an `Idempotency-Key` header, a retry of the same request within 24
+// hours gets the original response instead of sending again.
 export async function POST(request: NextRequest) {
   try {
     // Authenticate via API key
-    const authResult = await authenticateApiKey(request);
+    const authResult = await authenticateApiKey(request, 'send');
     if ('error' in authResult) {
       return authResult.error;
     }
 
-    const { app } = authResult;
+    const { app, apiKey } = authResult;
+
+    const idempotencyKey = request.headers.get('idempotency-key');
+    if (idempotencyKey !== null && !IDEMPOTENCY_KEY_PATTERN.test(idempotencyKey)) {
+      return errorResponse(
+        'Idempotency-Key must be 1-255 printable ASCII characters',
+        ErrorCodes.VALIDATION_ERROR,
+        400
+      );
+    }
 
     // Parse and validate request body
     const body = await parseJsonBody(request);
@@ -43,47 +156,72 @@ export async function POST(request: NextRequest) {
       return zodValidationErrorResponse(parseResult.error, body, 422);
     }
 
-    // Send notifications
-    const result = await sendNotifications(app, parseResult.data);
-
-    logger.info('Notifications sent', {
-      appId: app.id,
-      sent: result.sent,
-      failed: result.failed,
-      total: result.total,
-    });
-
-    const response = NextResponse.json(
-      {
-        success: true,
-        data: {
-          sent: result.sent,
-          failed: result.failed,
-          total: result.total,
-          failures: result.results
-            .filter((r) => !r.success)
-            .map((r) => ({
-              subscriptionId: r.subscriptionId,
-              error: r.error,
-            })),
-        },
-      },
-      { status: 200 }
+    const sync = request.nextUrl.searchParams.get('sync') === 'true';
+    if (sync && parseResult.data.sendAt) {
+      return errorResponse(
+        'Scheduled notifications cannot be sent with ?sync=true',
+        ErrorCodes.VALIDATION_ERROR,
+        422
+      );
+    }
+
+    if (!idempotencyKey) {
+      const result = await send(app, apiKey, parseResult.data, sync);
+      return result instanceof NextResponse
+        ? result
+        : sendResponse(apiKey, result.status, result.data, false, result.quota);
+    }
+
+    const requestHash = hashPayload({ body: parseResult.data, sync });
+    const reservation = await reserveIdempotencyKey(
+      app.id,
+      idempotencyKey,
+      requestHash,
+      IDEMPOTENCY_TTL_SECONDS,
+      IDEMPOTENCY_STALE_SECONDS
     );
 
-    // Add CORS headers
-    Object.entries(corsHeaders()).forEach(([key, value]) => {
-      response.headers.set(key, value);
-    });
+    if (!reservation.reserved) {
+      const { record } = reservation;
+      if (record.requestHash !== requestHash) {
+        return errorResponse(
+          'This Idempotency-Key was already used with a different request',
+          ErrorCodes.IDEMPOTENCY_KEY_REUSED,
+          409
+        );
+      }
+      if (record.statusCode === undefined) {
+        return errorResponse(
+          'A request with this Idempotency-Key is still being processed',
+          ErrorCodes.IDEMPOTENCY_KEY_IN_PROGRESS,
+          409
+        );
+      }
+
+      logger.info('Replayed idempotent send', { appId: app.id, idempotencyKey });
+      return sendResponse(apiKey, record.statusCode, record.response, true);
+    }
+
+    // Only successful sends are stored; after an error the key is released
+    // so the request can be retried
+    let result: Awaited<ReturnType<typeof send>>;
+    try {
+      result = await send(app, apiKey, parseResult.data, sync);
+    } catch (error) {
+      await releaseIdempotencyKey(app.id, idempotencyKey);
+      throw error;
+    }
+
+    if (result instanceof NextResponse) {
+      await releaseIdempotencyKey(app.id, idempotencyKey);
+      return result;
+    }
 
-    return response;
+    await saveIdempotentResponse(app.id, idempotencyKey, result.status, result.data);
+    return sendResponse(apiKey, result.status, result.data, false, result.quota);
   } catch (error) {
-    if (error instanceof Error && error.message === 'Rate limit exceeded') {
-      return errorResponse(
-        'Rate limit exceeded. Please try again later.',
-        ErrorCodes.RATE_LIMIT_EXCEEDED,
-        429
-      );
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResponse(error);
     }
 
     logger.error('Failed to send notifications', error);
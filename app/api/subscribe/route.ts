@@ -3,30 +3,31 @@ import {
   errorResponse,
   authenticateApiKey,
   corsHeaders,
+  apiKeyHeaders,
   corsResponse,
   parseJsonBody,
   zodValidationErrorResponse,
 } from '@/lib/api-utils';
-import { createSubscription, countSubscriptionsByApp } from '@/lib/db';
+import { createSubscription, countSubscriptionsByApp, getVapidKeysByVersions } from '@/lib/db';
 import { SubscribeSchema, ErrorCodes } from '@/lib/types';
 import logger from '@/lib/logger';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-export async function OPTIONS() {
-  return corsResponse();
+export async function OPTIONS(request: NextRequest) {
+  return corsResponse(request.headers.get('origin'));
 }
 
 export async function POST(request: NextRequest) {
   try {
     // Authenticate via API key
-    const authResult = await authenticateApiKey(request);
+    const authResult = await authenticateApiKey(request, 'subscribe');
     if ('error' in authResult) {
       return authResult.error;
     }
 
-    const { app } = authResult;
+    const { app, apiKey, corsOrigin } = authResult;
 
     // Check subscription limit
     const subscriptionCount = await countSubscriptionsByApp(app.id);
@@ -53,9 +54,33 @@ export async function POST(request: NextRequest) {
       return zodValidationErrorResponse(parseResult.error, body, 422);
     }
 
-    const { endpoint, keys, userId, channelId, metadata, expirationTime } =
+    const { endpoint, keys, userId, channelId, metadata, locale, expirationTime, vapidKeyVersion } =
       parseResult.data;
 
+    // Sends must use the key the browser subscribed with, so the version
+    // has to be one the app still has
+    if (
+      vapidKeyVersion !== undefined &&
+      vapidKeyVersion !== app.vapidKeyVersion &&
+      (await getVapidKeysByVersions(app.id, [vapidKeyVersion])).length === 0
+    ) {
+      return errorResponse(
+        'Validation failed',
+        ErrorCodes.VALIDATION_ERROR,
+        422,
+        {
+          issues: [
+            {
+              fieldPath: 'vapidKeyVersion',
+              message: `Unknown VAPID key version ${vapidKeyVersion}`,
+              code: 'custom',
+              value: vapidKeyVersion,
+            },
+          ],
+        }
+      );
+    }
+
     // Create/update subscription
     const subscription = await createSubscription(
       app.id,
@@ -66,7 +91,9 @@ export async function POST(request: NextRequest) {
         userId,
         channelId,
         metadata,
+        locale,
         expirationTime,
+        vapidKeyVersion,
       }
     );
 
@@ -83,6 +110,8 @@ export async function POST(request: NextRequest) {
         data: {
           id: subscription.id,
           endpoint: subscription.endpoint,
+          locale: subscription.locale ?? null,
+          vapidKeyVersion: subscription.vapidKeyVersion,
           createdAt: subscription.createdAt.toISOString(),
         },
       },
@@ -90,7 +119,7 @@ export async function POST(request: NextRequest) {
     );
 
     // Add CORS headers
-    Object.entries(corsHeaders()).forEach(([key, value]) => {
+    Object.entries({ ...corsHeaders(corsOrigin), ...apiKeyHeaders(apiKey) }).forEach(([key, value]) => {
       response.headers.set(key, value);
     });
 
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  errorResponse,
+  authenticateApiKey,
+  corsHeaders,
+  apiKeyHeaders,
+  corsResponse,
+} from '@/lib/api-utils';
+import { deleteSubscription, getSubscriptionById } from '@/lib/db';
+import { toSubscriptionResponse } from '@/lib/subscriptions';
+import { ErrorCodes } from '@/lib/types';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return corsResponse(request.headers.get('origin'));
+}
+
+// Get one subscription, without its keys
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const authResult = await authenticateApiKey(request, 'read');
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { app, apiKey, corsOrigin } = authResult;
+
+    const subscription = await getSubscriptionById(id, app.id);
+    if (!subscription) {
+      return errorResponse('Subscription not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    const response = NextResponse.json(
+      { success: true, data: toSubscriptionResponse(subscription) },
+      { status: 200 }
+    );
+
+    Object.entries({ ...corsHeaders(corsOrigin), ...apiKeyHeaders(apiKey) }).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to get subscription', error);
+    return errorResponse(
+      'Failed to get subscription',
+      ErrorCodes.INTERNAL_ERROR,
+      500
+    );
+  }
+}
+
+// Remove a subscription from a server. Publishable keys could otherwise
+// remove any subscription whose id reached a browser, so they have to use
+// /api/unsubscribe with the subscription's auth secret.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const authResult = await authenticateApiKey(request, 'subscribe');
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { app, apiKey, corsOrigin } = authResult;
+
+    if (apiKey.type === 'publishable') {
+      return errorResponse(
+        'Publishable keys cannot delete subscriptions by id; use POST /api/unsubscribe',
+        ErrorCodes.FORBIDDEN,
+        403
+      );
+    }
+
+    const deleted = await deleteSubscription(id, app.id);
+    if (!deleted) {
+      return errorResponse('Subscription not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    logger.info('Subscription removed', { appId: app.id, subscriptionId: id, apiKeyId: apiKey.id });
+
+    const response = NextResponse.json(
+      { success: true, data: { deleted: true } },
+      { status: 200 }
+    );
+
+    Object.entries({ ...corsHeaders(corsOrigin), ...apiKeyHeaders(apiKey) }).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to delete subscription', error);
+    return errorResponse(
+      'Failed to delete subscription',
+      ErrorCodes.INTERNAL_ERROR,
+      500
+    );
+  }
+}
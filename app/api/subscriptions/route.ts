@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  errorResponse,
+  authenticateApiKey,
+  corsHeaders,
+  apiKeyHeaders,
+  corsResponse,
+  zodValidationErrorResponse,
+} from '@/lib/api-utils';
+import { getSubscriptionsByApp } from '@/lib/db';
+import {
+  decodeSubscriptionCursor,
+  encodeSubscriptionCursor,
+  toSubscriptionResponse,
+} from '@/lib/subscriptions';
+import { ListSubscriptionsQuerySchema, ErrorCodes } from '@/lib/types';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const METADATA_PARAM_PREFIX = 'metadata.';
+
+export async function OPTIONS(request: NextRequest) {
+  return corsResponse(request.headers.get('origin'));
+}
+
+// List the app's live subscriptions, oldest first. `metadata.<key>=<value>`
+// parameters match metadata values. Page through by passing `nextCursor`
+// back as `cursor`.
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateApiKey(request, 'read');
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { app, apiKey, corsOrigin } = authResult;
+
+    const query: Record<string, unknown> = {};
+    const metadata: Record<string, string> = {};
+    request.nextUrl.searchParams.forEach((value, key) => {
+      if (key.startsWith(METADATA_PARAM_PREFIX)) {
+        metadata[key.slice(METADATA_PARAM_PREFIX.length)] = value;
+      } else {
+        query[key] = value;
+      }
+    });
+    if (Object.keys(metadata).length > 0) {
+      query.metadata = metadata;
+    }
+
+    const parseResult = ListSubscriptionsQuerySchema.safeParse(query);
+    if (!parseResult.success) {
+      return zodValidationErrorResponse(parseResult.error, query, 422);
+    }
+
+    const { userId, channelId, cursor, limit, ...filter } = parseResult.data;
+
+    const after = cursor ? decodeSubscriptionCursor(cursor) : undefined;
+    if (after === null) {
+      return errorResponse('Invalid cursor', ErrorCodes.VALIDATION_ERROR, 422);
+    }
+
+    const page = await getSubscriptionsByApp(app.id, {
+      target: { userId, channelId },
+      filter: {
+        metadata: filter.metadata,
+        pushService: filter.pushService,
+        createdAfter: filter.createdAfter ? new Date(filter.createdAfter) : undefined,
+        createdBefore: filter.createdBefore ? new Date(filter.createdBefore) : undefined,
+      },
+      after,
+      limit,
+    });
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        data: {
+          subscriptions: page.subscriptions.map(toSubscriptionResponse),
+          nextCursor: page.nextCursor ? encodeSubscriptionCursor(page.nextCursor) : null,
+        },
+      },
+      { status: 200 }
+    );
+
+    Object.entries({ ...corsHeaders(corsOrigin), ...apiKeyHeaders(apiKey) }).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to list subscriptions', error);
+    return errorResponse(
+      'Failed to list subscriptions',
+      ErrorCodes.INTERNAL_ERROR,
+      500
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  errorResponse,
+  authenticateApiKey,
+  corsHeaders,
+  apiKeyHeaders,
+  corsResponse,
+  parseJsonBody,
+  zodValidationErrorResponse,
+} from '@/lib/api-utils';
+import { deleteSubscriptionByEndpoint } from '@/lib/db';
+import { UnsubscribeSchema, ErrorCodes } from '@/lib/types';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function OPTIONS(request: NextRequest) {
+  return corsResponse(request.headers.get('origin'));
+}
+
+// Remove a subscription by its endpoint, e.g. after
+// `PushSubscription.unsubscribe()` in the browser. The body must carry the
+// subscription's `auth` secret; a wrong one is answered like an unknown
+// endpoint.
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate via API key
+    const authResult = await authenticateApiKey(request, 'subscribe');
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+
+    const { app, apiKey, corsOrigin } = authResult;
+
+    const body = await parseJsonBody(request);
+    if (!body) {
+      return errorResponse(
+        'Invalid JSON body',
+        ErrorCodes.VALIDATION_ERROR,
+        400
+      );
+    }
+
+    const parseResult = UnsubscribeSchema.safeParse(body);
+    if (!parseResult.success) {
+      return zodValidationErrorResponse(parseResult.error, body, 422);
+    }
+
+    const { endpoint, keys } = parseResult.data;
+
+    const deleted = await deleteSubscriptionByEndpoint(app.id, endpoint, keys.auth);
+    if (!deleted) {
+      return errorResponse('Subscription not found', ErrorCodes.NOT_FOUND, 404);
+    }
+
+    logger.info('Subscription removed', { appId: app.id, apiKeyId: apiKey.id });
+
+    const response = NextResponse.json(
+      { success: true, data: { deleted: true } },
+      { status: 200 }
+    );
+
+    Object.entries({ ...corsHeaders(corsOrigin), ...apiKeyHeaders(apiKey) }).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Failed to remove subscription', error);
+    return errorResponse(
+      'Failed to remove subscription',
+      ErrorCodes.INTERNAL_ERROR,
+      500
+    );
+  }
+}
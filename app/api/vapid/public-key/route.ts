@@ -3,6 +3,7 @@ import {
   errorResponse,
   authenticateApiKey,
   corsHeaders,
+  apiKeyHeaders,
   corsResponse,
 } from '@/lib/api-utils';
 import { ErrorCodes } from '@/lib/types';
@@ -11,31 +12,33 @@ import logger from '@/lib/logger';
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-export async function OPTIONS() {
-  return corsResponse();
+export async function OPTIONS(request: NextRequest) {
+  return corsResponse(request.headers.get('origin'));
 }
 
 // Get VAPID public key for an app (for client-side subscription)
 export async function GET(request: NextRequest) {
   try {
-    const authResult = await authenticateApiKey(request);
+    const authResult = await authenticateApiKey(request, 'vapid:read');
     if ('error' in authResult) {
       return authResult.error;
     }
 
-    const { app } = authResult;
+    const { app, apiKey, corsOrigin } = authResult;
 
     const response = NextResponse.json(
       {
         success: true,
         data: {
           publicKey: app.vapidPublicKey,
+          // Send back as `vapidKeyVersion` when subscribing
+          version: app.vapidKeyVersion,
         },
       },
       { status: 200 }
     );
 
-    Object.entries(corsHeaders()).forEach(([key, value]) => {
+    Object.entries({ ...corsHeaders(corsOrigin), ...apiKeyHeaders(apiKey) }).forEach(([key, value]) => {
       response.headers.set(key, value);
     });
 
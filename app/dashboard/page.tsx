@@ -2,27 +2,47 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { useActiveAccount } from 'thirdweb/react';
 import Header from '@/components/Header';
+import { useAuth } from '@/hooks/useAuth';
 
-// Simple auth token generator for demo purposes
-function createMockToken(address: string): string {
-  const payload = {
-    sub: address.toLowerCase(),
-    exp: Math.floor(Date.now() / 1000) + 3600,
-    iat: Math.floor(Date.now() / 1000),
-  };
-  return `header.${btoa(JSON.stringify(payload))}.signature`;
+const API_KEY_SCOPES = ['subscribe', 'send', 'read', 'vapid:read'] as const;
+const PUBLISHABLE_KEY_SCOPES: readonly string[] = ['subscribe', 'vapid:read'];
+
+interface ApiKeySummary {
+  id: string;
+  name: string;
+  type: 'secret' | 'publishable';
+  keyPrefix: string;
+  scopes: string[];
+  lastUsedAt?: string | null;
+  expiresAt?: string | null;
+  replacedBy?: string | null;
+}
+
+interface VapidKeySummary {
+  version: number;
+  publicKey: string;
+  status: 'active' | 'retired';
+  subscriptionCount: number;
+  createdAt: string;
+  retiredAt: string | null;
 }
 
 interface App {
   id: string;
   name: string;
-  apiKey: string;
+  apiKey?: string; // only known right after create/regenerate
+  apiKeyPrefix?: string;
+  apiKeys?: ApiKeySummary[];
   vapidPublicKey: string;
+  vapidKeyVersion?: number;
+  vapidKeys?: VapidKeySummary[];
   metadata?: {
     description?: string;
     website?: string;
+    iconUrl?: string;
+    allowedOrigins?: string[];
+    vapidSubject?: string;
   };
   rateLimit?: {
     maxNotificationsPerMinute: number;
@@ -33,7 +53,7 @@ interface App {
 }
 
 export default function Dashboard() {
-  const account = useActiveAccount();
+  const { account, authFetch, signOut } = useAuth();
   const router = useRouter();
   const [apps, setApps] = useState<App[]>([]);
   const [loading, setLoading] = useState(true);
@@ -49,9 +69,22 @@ export default function Dashboard() {
   const [testPushResult, setTestPushResult] = useState<{
     sent: number;
     failed: number;
+    retrying: number;
     total: number;
   } | null>(null);
   const [testPushError, setTestPushError] = useState<string | null>(null);
+  const [newKeyName, setNewKeyName] = useState('');
+  const [newKeyScopes, setNewKeyScopes] = useState<string[]>(['send']);
+  const [creatingKey, setCreatingKey] = useState(false);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [newKeyPublishable, setNewKeyPublishable] = useState(false);
+  const [allowedOriginsInput, setAllowedOriginsInput] = useState('');
+  const [savingOrigins, setSavingOrigins] = useState(false);
+  const [rotatingVapidKey, setRotatingVapidKey] = useState(false);
+  const [originsError, setOriginsError] = useState<string | null>(null);
+  const [vapidSubjectInput, setVapidSubjectInput] = useState('');
+  const [savingSubject, setSavingSubject] = useState(false);
+  const [subjectError, setSubjectError] = useState<string | null>(null);
 
   useEffect(() => {
     if (!account) {
@@ -61,13 +94,7 @@ export default function Dashboard() {
     
     const loadApps = async () => {
       try {
-        const token = createMockToken(account.address);
-
-        const response = await fetch('/api/apps', {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        });
+        const response = await authFetch('/api/apps');
 
         if (response.ok) {
           const data = await response.json();
@@ -81,21 +108,15 @@ export default function Dashboard() {
     };
     
     loadApps();
-  }, [account, router]);
+  }, [account, authFetch, router]);
 
   const createApp = async () => {
     if (!account || !newAppName.trim()) return;
     
     setCreating(true);
     try {
-      const token = createMockToken(account.address);
-
-      const response = await fetch('/api/register-app', {
+      const response = await authFetch('/api/register-app', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
-        },
         body: JSON.stringify({ name: newAppName.trim() }),
       });
 
@@ -123,13 +144,8 @@ export default function Dashboard() {
     
     setDeletingApp(appId);
     try {
-      const token = createMockToken(account.address);
-
-      const response = await fetch(`/api/apps/${appId}`, {
+      const response = await authFetch(`/api/apps/${appId}`, {
         method: 'DELETE',
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
       });
 
       if (response.ok) {
@@ -151,23 +167,26 @@ export default function Dashboard() {
     
     setRegeneratingKey(appId);
     try {
-      const token = createMockToken(account.address);
-
-      const response = await fetch(`/api/apps/${appId}/regenerate-key`, {
+      const response = await authFetch(`/api/apps/${appId}/regenerate-key`, {
         method: 'POST',
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
       });
 
       if (response.ok) {
         const data = await response.json();
         setApps(apps.map(app => 
-          app.id === appId ? { ...app, apiKey: data.data.apiKey } : app
+          app.id === appId
+            ? { ...app, apiKey: data.data.apiKey, apiKeyPrefix: data.data.apiKeyPrefix }
+            : app
         ));
         if (selectedApp?.id === appId) {
-          setSelectedApp({ ...selectedApp, apiKey: data.data.apiKey });
+          setSelectedApp({
+            ...selectedApp,
+            apiKey: data.data.apiKey,
+            apiKeyPrefix: data.data.apiKeyPrefix,
+          });
         }
+        // The previous key stays valid for the grace period; show it in the list
+        await loadApiKeys(appId);
       }
     } catch (error) {
       console.error('Failed to regenerate API key:', error);
@@ -176,18 +195,191 @@ export default function Dashboard() {
     }
   };
 
+  const loadApiKeys = async (appId: string) => {
+    try {
+      const response = await authFetch(`/api/apps/${appId}/keys`);
+      if (response.ok) {
+        const data = await response.json();
+        const apiKeys: ApiKeySummary[] = data.data || [];
+        setApps(prev => prev.map(app => app.id === appId ? { ...app, apiKeys } : app));
+        setSelectedApp(prev => prev?.id === appId ? { ...prev, apiKeys } : prev);
+      }
+    } catch (error) {
+      console.error('Failed to load API keys:', error);
+    }
+  };
+
+  const loadVapidKeys = async (appId: string) => {
+    try {
+      const response = await authFetch(`/api/apps/${appId}/vapid-keys`);
+      if (response.ok) {
+        const data = await response.json();
+        const vapidKeys: VapidKeySummary[] = data.data.keys || [];
+        setApps(prev => prev.map(app => app.id === appId ? { ...app, vapidKeys } : app));
+        setSelectedApp(prev => prev?.id === appId ? { ...prev, vapidKeys } : prev);
+      }
+    } catch (error) {
+      console.error('Failed to load VAPID keys:', error);
+    }
+  };
+
+  const rotateVapidKeyHandler = async (appId: string) => {
+    setRotatingVapidKey(true);
+    try {
+      const response = await authFetch(`/api/apps/${appId}/vapid-keys`, { method: 'POST' });
+
+      if (response.ok) {
+        const data = await response.json();
+        const { vapidPublicKey, vapidKeyVersion } = data.data;
+        setApps(prev => prev.map(app =>
+          app.id === appId ? { ...app, vapidPublicKey, vapidKeyVersion } : app
+        ));
+        setSelectedApp(prev =>
+          prev?.id === appId ? { ...prev, vapidPublicKey, vapidKeyVersion } : prev
+        );
+        await loadVapidKeys(appId);
+      }
+    } catch (error) {
+      console.error('Failed to rotate VAPID key:', error);
+    } finally {
+      setRotatingVapidKey(false);
+    }
+  };
+
+  const deleteVapidKeyHandler = async (appId: string, key: VapidKeySummary) => {
+    if (
+      key.subscriptionCount > 0 &&
+      !window.confirm(`${key.subscriptionCount} subscription(s) still use this key and will be deleted with it. Continue?`)
+    ) {
+      return;
+    }
+
+    try {
+      const response = await authFetch(
+        `/api/apps/${appId}/vapid-keys/${key.version}${key.subscriptionCount > 0 ? '?force=true' : ''}`,
+        { method: 'DELETE' }
+      );
+
+      if (response.ok) {
+        await loadVapidKeys(appId);
+      }
+    } catch (error) {
+      console.error('Failed to delete VAPID key:', error);
+    }
+  };
+
+  const createApiKeyHandler = async (appId: string) => {
+    if (!newKeyName.trim() || newKeyScopes.length === 0) return;
+
+    setCreatingKey(true);
+    setCreatedKey(null);
+    try {
+      const response = await authFetch(`/api/apps/${appId}/keys`, {
+        method: 'POST',
+        body: JSON.stringify({
+          name: newKeyName.trim(),
+          type: newKeyPublishable ? 'publishable' : 'secret',
+          scopes: newKeyPublishable
+            ? newKeyScopes.filter(scope => PUBLISHABLE_KEY_SCOPES.includes(scope))
+            : newKeyScopes,
+        }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setCreatedKey(data.data.apiKey);
+        setNewKeyName('');
+        await loadApiKeys(appId);
+      }
+    } catch (error) {
+      console.error('Failed to create API key:', error);
+    } finally {
+      setCreatingKey(false);
+    }
+  };
+
+  const deleteApiKeyHandler = async (appId: string, keyId: string) => {
+    try {
+      const response = await authFetch(`/api/apps/${appId}/keys/${keyId}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        await loadApiKeys(appId);
+      }
+    } catch (error) {
+      console.error('Failed to delete API key:', error);
+    }
+  };
+
+  const saveAllowedOrigins = async (app: App) => {
+    const allowedOrigins = allowedOriginsInput
+      .split(/[\s,]+/)
+      .map(origin => origin.trim().replace(/\/+$/, ''))
+      .filter(Boolean);
+
+    setSavingOrigins(true);
+    setOriginsError(null);
+    try {
+      // PUT replaces metadata as a whole, so send the existing fields too
+      const response = await authFetch(`/api/apps/${app.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ metadata: { ...app.metadata, allowedOrigins } }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        const metadata = data.data.metadata;
+        setApps(prev => prev.map(a => a.id === app.id ? { ...a, metadata } : a));
+        setSelectedApp(prev => prev?.id === app.id ? { ...prev, metadata } : prev);
+      } else {
+        setOriginsError(data.details?.issues?.[0]?.message || data.error || 'Failed to save origins');
+      }
+    } catch (error) {
+      console.error('Failed to save allowed origins:', error);
+      setOriginsError('Failed to save origins');
+    } finally {
+      setSavingOrigins(false);
+    }
+  };
+
+  const saveVapidSubject = async (app: App) => {
+    const vapidSubject = vapidSubjectInput.trim();
+    // An empty field clears the subject so the relay's default is used again
+    const { vapidSubject: _previous, ...rest } = app.metadata ?? {};
+
+    setSavingSubject(true);
+    setSubjectError(null);
+    try {
+      const response = await authFetch(`/api/apps/${app.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ metadata: vapidSubject ? { ...rest, vapidSubject } : rest }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        const metadata = data.data.metadata;
+        setApps(prev => prev.map(a => a.id === app.id ? { ...a, metadata } : a));
+        setSelectedApp(prev => prev?.id === app.id ? { ...prev, metadata } : prev);
+      } else {
+        setSubjectError(data.details?.issues?.[0]?.message || data.error || 'Failed to save contact');
+      }
+    } catch (error) {
+      console.error('Failed to save VAPID subject:', error);
+      setSubjectError('Failed to save contact');
+    } finally {
+      setSavingSubject(false);
+    }
+  };
+
   const sendTestPush = async (app: App) => {
     setSendingTestPush(true);
     setTestPushError(null);
     setTestPushResult(null);
 
     try {
-      const response = await fetch('/api/send', {
+      const response = await authFetch(`/api/apps/${app.id}/test-push`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-API-Key': app.apiKey,
-        },
         body: JSON.stringify({
           payload: {
             title: 'Test notification',
@@ -206,6 +398,7 @@ export default function Dashboard() {
       setTestPushResult({
         sent: data.data.sent,
         failed: data.data.failed,
+        retrying: data.data.retrying,
         total: data.data.total,
       });
     } catch (error) {
@@ -234,15 +427,24 @@ export default function Dashboard() {
               Manage your push notification apps and API keys
             </p>
           </div>
-          <button
-            onClick={() => setShowCreateModal(true)}
-            className="btn-primary"
-          >
-            <svg className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-            </svg>
-            Create New App
-          </button>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => signOut(true)}
+              className="btn-ghost text-sm"
+              title="Revoke every dashboard session for this wallet"
+            >
+              Sign Out Everywhere
+            </button>
+            <button
+              onClick={() => setShowCreateModal(true)}
+              className="btn-primary"
+            >
+              <svg className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              Create New App
+            </button>
+          </div>
         </div>
 
         {/* Apps Grid */}
@@ -311,7 +513,16 @@ export default function Dashboard() {
                   </div>
                   <div className="flex items-center gap-2">
                     <button
-                      onClick={() => setSelectedApp(app)}
+                      onClick={() => {
+                        setSelectedApp(app);
+                        setCreatedKey(null);
+                        setAllowedOriginsInput((app.metadata?.allowedOrigins ?? []).join('\n'));
+                        setOriginsError(null);
+                        setVapidSubjectInput(app.metadata?.vapidSubject ?? '');
+                        setSubjectError(null);
+                        loadApiKeys(app.id);
+                        loadVapidKeys(app.id);
+                      }}
                       className="btn-ghost text-sm"
                     >
                       View Details
@@ -333,7 +544,7 @@ export default function Dashboard() {
                   <label className="text-sm text-midnight-400 mb-1 block">API Key</label>
                   <div className="flex items-center gap-2">
                     <code className="flex-1 bg-midnight-950 rounded-lg px-3 py-2 text-sm font-mono text-vapor-300 truncate">
-                      {app.apiKey}
+                      {app.apiKey ?? `${app.apiKeyPrefix ?? app.apiKeys?.[0]?.keyPrefix ?? 'vp_'}…`}
                     </code>
                     <button
                       onClick={() => regenerateApiKeyHandler(app.id)}
@@ -349,22 +560,29 @@ export default function Dashboard() {
                         </svg>
                       )}
                     </button>
-                    <button
-                      onClick={() => copyToClipboard(app.apiKey, `api-${app.id}`)}
-                      className="p-2 hover:bg-midnight-800 rounded-lg transition-colors"
-                      title="Copy API key"
-                    >
-                      {copiedKey === `api-${app.id}` ? (
-                        <svg className="w-5 h-5 text-vapor-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                        </svg>
-                      ) : (
-                        <svg className="w-5 h-5 text-midnight-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                        </svg>
-                      )}
-                    </button>
+                    {app.apiKey && (
+                      <button
+                        onClick={() => copyToClipboard(app.apiKey as string, `api-${app.id}`)}
+                        className="p-2 hover:bg-midnight-800 rounded-lg transition-colors"
+                        title="Copy API key"
+                      >
+                        {copiedKey === `api-${app.id}` ? (
+                          <svg className="w-5 h-5 text-vapor-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                          </svg>
+                        ) : (
+                          <svg className="w-5 h-5 text-midnight-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                          </svg>
+                        )}
+                      </button>
+                    )}
                   </div>
+                  {app.apiKey && (
+                    <p className="text-xs text-midnight-500 mt-1">
+                      Copy this key now. It is stored hashed and will not be shown again.
+                    </p>
+                  )}
                 </div>
 
                 {/* VAPID Public Key */}
@@ -483,7 +701,7 @@ await fetch('https://vapid.party/api/subscribe', {
   method: 'POST',
   headers: {
     'Content-Type': 'application/json',
-    'X-API-Key': '${selectedApp.apiKey}'
+    'X-API-Key': '${selectedApp.apiKey ?? 'YOUR_API_KEY'}'
   },
   body: JSON.stringify({
     endpoint: subscription.endpoint,
@@ -499,7 +717,7 @@ await fetch('https://vapid.party/api/send', {
   method: 'POST',
   headers: {
     'Content-Type': 'application/json',
-    'X-API-Key': '${selectedApp.apiKey}'
+    'X-API-Key': '${selectedApp.apiKey ?? 'YOUR_API_KEY'}'
   },
   body: JSON.stringify({
     payload: {
@@ -512,16 +730,18 @@ await fetch('https://vapid.party/api/send', {
             </div>
 
             <div className="flex gap-3 mb-4">
-              <button
-                onClick={() => {
-                  navigator.clipboard.writeText(selectedApp.apiKey);
-                  setCopiedKey('modal-api');
-                  setTimeout(() => setCopiedKey(null), 2000);
-                }}
-                className="btn-secondary flex-1"
-              >
-                {copiedKey === 'modal-api' ? 'Copied!' : 'Copy API Key'}
-              </button>
+              {selectedApp.apiKey && (
+                <button
+                  onClick={() => {
+                    navigator.clipboard.writeText(selectedApp.apiKey as string);
+                    setCopiedKey('modal-api');
+                    setTimeout(() => setCopiedKey(null), 2000);
+                  }}
+                  className="btn-secondary flex-1"
+                >
+                  {copiedKey === 'modal-api' ? 'Copied!' : 'Copy API Key'}
+                </button>
+              )}
               <button
                 onClick={() => {
                   navigator.clipboard.writeText(selectedApp.vapidPublicKey);
@@ -534,6 +754,183 @@ await fetch('https://vapid.party/api/send', {
               </button>
             </div>
 
+            {/* VAPID Keys */}
+            <div className="mb-6">
+              <h3 className="font-semibold mb-2">VAPID Keys</h3>
+              <p className="text-sm text-midnight-400 mb-3">
+                New subscriptions use the active key. Retired keys keep sending to the
+                subscriptions created under them; delete a retired key once its count reaches 0.
+              </p>
+              <ul className="space-y-2 mb-3">
+                {(selectedApp.vapidKeys ?? []).map((key) => (
+                  <li key={key.version} className="flex items-center justify-between gap-3 bg-midnight-950 rounded-lg px-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      <div className="font-medium">
+                        v{key.version} · {key.status}
+                      </div>
+                      <div className="text-midnight-500 font-mono truncate">
+                        {key.publicKey.slice(0, 16)}… · {key.subscriptionCount} subscription(s)
+                      </div>
+                    </div>
+                    {key.status === 'retired' && (
+                      <button
+                        onClick={() => deleteVapidKeyHandler(selectedApp.id, key)}
+                        className="text-red-400 hover:text-red-300 text-xs"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              <button
+                onClick={() => rotateVapidKeyHandler(selectedApp.id)}
+                className="btn-secondary w-full"
+                disabled={rotatingVapidKey}
+              >
+                {rotatingVapidKey ? 'Rotating…' : 'Rotate VAPID Key'}
+              </button>
+            </div>
+
+            {/* API Keys */}
+            <div className="mb-6">
+              <h3 className="font-semibold mb-2">API Keys</h3>
+              <p className="text-sm text-midnight-400 mb-3">
+                Give each integration its own key with only the scopes it needs.
+              </p>
+              <ul className="space-y-2 mb-3">
+                {(selectedApp.apiKeys ?? []).map((key) => (
+                  <li key={key.id} className="flex items-center justify-between gap-3 bg-midnight-950 rounded-lg px-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">{key.name}</div>
+                      <div className="text-midnight-500 font-mono truncate">
+                        {key.keyPrefix}… · {key.type === 'publishable' ? 'publishable · ' : ''}{key.scopes.join(', ')}
+                      </div>
+                      {key.expiresAt && (
+                        <div className={key.replacedBy ? 'text-amber-400 text-xs' : 'text-midnight-500 text-xs'}>
+                          {key.replacedBy ? 'Rotated · ' : ''}expires {new Date(key.expiresAt).toLocaleString()}
+                        </div>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => deleteApiKeyHandler(selectedApp.id, key.id)}
+                      className="text-red-400 hover:text-red-300 text-xs"
+                    >
+                      {key.replacedBy ? 'Revoke now' : 'Revoke'}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex flex-col gap-2">
+                <input
+                  type="text"
+                  value={newKeyName}
+                  onChange={(e) => setNewKeyName(e.target.value)}
+                  placeholder="Key name (e.g. Backend)"
+                  className="input"
+                />
+                <label className="flex items-center gap-2 text-sm text-midnight-400">
+                  <input
+                    type="checkbox"
+                    checked={newKeyPublishable}
+                    onChange={(e) => setNewKeyPublishable(e.target.checked)}
+                  />
+                  Publishable (safe for web pages; subscribe and VAPID key only)
+                </label>
+                <div className="flex flex-wrap gap-3 text-sm text-midnight-400">
+                  {API_KEY_SCOPES.map((scope) => (
+                    <label key={scope} className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        disabled={newKeyPublishable && !PUBLISHABLE_KEY_SCOPES.includes(scope)}
+                        checked={newKeyScopes.includes(scope) &&
+                          (!newKeyPublishable || PUBLISHABLE_KEY_SCOPES.includes(scope))}
+                        onChange={(e) =>
+                          setNewKeyScopes(e.target.checked
+                            ? [...newKeyScopes, scope]
+                            : newKeyScopes.filter(s => s !== scope))
+                        }
+                      />
+                      {scope}
+                    </label>
+                  ))}
+                </div>
+                <button
+                  onClick={() => createApiKeyHandler(selectedApp.id)}
+                  className="btn-secondary"
+                  disabled={
+                    creatingKey ||
+                    !newKeyName.trim() ||
+                    !newKeyScopes.some(scope => !newKeyPublishable || PUBLISHABLE_KEY_SCOPES.includes(scope))
+                  }
+                >
+                  {creatingKey ? 'Creating…' : 'Create API Key'}
+                </button>
+                {createdKey && (
+                  <div className="text-sm">
+                    <p className="text-midnight-400 mb-1">
+                      Copy this key now. It is stored hashed and will not be shown again.
+                    </p>
+                    <code className="block bg-midnight-950 rounded-lg px-3 py-2 font-mono text-vapor-300 break-all">
+                      {createdKey}
+                    </code>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Allowed Origins */}
+            <div className="mb-6">
+              <h3 className="font-semibold mb-2">Allowed Origins</h3>
+              <p className="text-sm text-midnight-400 mb-3">
+                Web pages allowed to call the push endpoints, one per line
+                (e.g. https://example.com). Publishable keys only work from these origins.
+              </p>
+              <textarea
+                value={allowedOriginsInput}
+                onChange={(e) => setAllowedOriginsInput(e.target.value)}
+                rows={3}
+                className="input font-mono text-sm mb-2"
+                placeholder="https://example.com"
+              />
+              {originsError && (
+                <p className="text-sm text-red-400 mb-2">{originsError}</p>
+              )}
+              <button
+                onClick={() => saveAllowedOrigins(selectedApp)}
+                className="btn-secondary w-full"
+                disabled={savingOrigins}
+              >
+                {savingOrigins ? 'Saving…' : 'Save Origins'}
+              </button>
+            </div>
+
+            {/* Push Contact */}
+            <div className="mb-6">
+              <h3 className="font-semibold mb-2">Push Contact</h3>
+              <p className="text-sm text-midnight-400 mb-3">
+                Sent to push services as the VAPID subject so they can reach you about this
+                app. Leave empty to use the relay&apos;s default contact.
+              </p>
+              <input
+                type="text"
+                value={vapidSubjectInput}
+                onChange={(e) => setVapidSubjectInput(e.target.value)}
+                className="input font-mono text-sm mb-2"
+                placeholder="mailto:ops@example.com"
+              />
+              {subjectError && (
+                <p className="text-sm text-red-400 mb-2">{subjectError}</p>
+              )}
+              <button
+                onClick={() => saveVapidSubject(selectedApp)}
+                className="btn-secondary w-full"
+                disabled={savingSubject}
+              >
+                {savingSubject ? 'Saving…' : 'Save Contact'}
+              </button>
+            </div>
+
             {/* Test Push */}
             <div className="mb-6">
               <h3 className="font-semibold mb-2">Test Push</h3>
@@ -558,6 +955,9 @@ await fetch('https://vapid.party/api/send', {
                   {testPushResult.failed > 0
                     ? ` (${testPushResult.failed} failed)`
                     : ''}
+                  {testPushResult.retrying > 0
+                    ? ` — ${testPushResult.retrying} will be retried`
+                    : ''}
                   {testPushResult.total === 0 ? ' — no subscribers yet' : ''}
                 </div>
               )}
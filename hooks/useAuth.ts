@@ -1,54 +1,134 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
-import { useActiveAccount } from 'thirdweb/react';
-import { createAuthToken, getAuthHeader } from '@/lib/auth';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useActiveAccount, useActiveWalletChain } from 'thirdweb/react';
+import { buildSiweMessage } from '@/lib/siwe';
+import { SUPPORTED_CHAINS } from '@/lib/thirdweb';
+
+const SIWE_STATEMENT = 'Sign in to vapid.party to manage your push notification apps.';
 
 interface AuthState {
-  token: string | null;
+  sessionAddress: string | null;
   loading: boolean;
   error: string | null;
 }
 
 /**
  * Hook for wallet-based authentication
- * 
- * Manages auth token creation and refresh for API calls
+ *
+ * Signs in with Ethereum (EIP-4361) against a server-issued nonce; the
+ * server answers with an HttpOnly session cookie that authFetch relies on.
  */
 export function useAuth() {
   const account = useActiveAccount();
+  const chain = useActiveWalletChain();
   const [authState, setAuthState] = useState<AuthState>({
-    token: null,
+    sessionAddress: null,
     loading: false,
     error: null,
   });
 
+  // Refs keep authFetch stable across session changes and make concurrent
+  // callers share a single signature prompt.
+  const sessionAddressRef = useRef<string | null>(null);
+  const pendingSignInRef = useRef<Promise<boolean> | null>(null);
+
   // Clear auth state when account changes
   useEffect(() => {
-    setAuthState({ token: null, loading: false, error: null });
+    sessionAddressRef.current = null;
+    pendingSignInRef.current = null;
+    setAuthState({ sessionAddress: null, loading: false, error: null });
   }, [account?.address]);
 
   /**
-   * Get a fresh auth token (requests wallet signature)
+   * Sign in with the connected wallet (requests a wallet signature)
    */
-  const getToken = useCallback(async (): Promise<string | null> => {
+  const signIn = useCallback(async (): Promise<boolean> => {
     if (!account) {
-      setAuthState({ token: null, loading: false, error: 'No wallet connected' });
-      return null;
+      setAuthState({ sessionAddress: null, loading: false, error: 'No wallet connected' });
+      return false;
+    }
+
+    if (pendingSignInRef.current) {
+      return pendingSignInRef.current;
     }
 
     setAuthState(prev => ({ ...prev, loading: true, error: null }));
 
-    try {
-      const token = await createAuthToken(account);
-      setAuthState({ token, loading: false, error: null });
-      return token;
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to authenticate';
-      setAuthState({ token: null, loading: false, error: message });
-      return null;
+    const pending = (async () => {
+      try {
+        const nonceResponse = await fetch('/api/auth/nonce', { cache: 'no-store' });
+        const nonceData = await nonceResponse.json();
+        if (!nonceResponse.ok || !nonceData?.success) {
+          throw new Error(nonceData?.error || 'Failed to get sign-in nonce');
+        }
+
+        const chainId = SUPPORTED_CHAINS.some(c => c.id === chain?.id)
+          ? (chain?.id as number)
+          : SUPPORTED_CHAINS[0].id;
+
+        const message = buildSiweMessage({
+          domain: window.location.host,
+          address: account.address,
+          statement: SIWE_STATEMENT,
+          uri: window.location.origin,
+          version: '1',
+          chainId,
+          nonce: nonceData.data.nonce,
+          issuedAt: new Date().toISOString(),
+        });
+
+        const signature = await account.signMessage({ message });
+
+        const verifyResponse = await fetch('/api/auth/verify', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ message, signature }),
+        });
+        const verifyData = await verifyResponse.json();
+        if (!verifyResponse.ok || !verifyData?.success) {
+          throw new Error(verifyData?.error || 'Failed to sign in');
+        }
+
+        sessionAddressRef.current = verifyData.data.address;
+        setAuthState({ sessionAddress: verifyData.data.address, loading: false, error: null });
+        return true;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to authenticate';
+        sessionAddressRef.current = null;
+        setAuthState({ sessionAddress: null, loading: false, error: message });
+        return false;
+      } finally {
+        pendingSignInRef.current = null;
+      }
+    })();
+
+    pendingSignInRef.current = pending;
+    return pending;
+  }, [account, chain?.id]);
+
+  /**
+   * Make sure the session cookie belongs to the connected wallet,
+   * signing in again if it does not
+   */
+  const ensureSession = useCallback(async (): Promise<boolean> => {
+    if (!account) return false;
+    const address = account.address.toLowerCase();
+
+    if (sessionAddressRef.current === address) return true;
+
+    const response = await fetch('/api/auth/session', { cache: 'no-store' });
+    if (response.ok) {
+      const data = await response.json();
+      if (data?.data?.address === address) {
+        sessionAddressRef.current = address;
+        setAuthState({ sessionAddress: address, loading: false, error: null });
+        return true;
+      }
     }
-  }, [account]);
+
+    return signIn();
+  }, [account, signIn]);
 
   /**
    * Make an authenticated API request
@@ -57,54 +137,45 @@ export function useAuth() {
     url: string,
     options: RequestInit = {}
   ): Promise<Response> => {
-    // Use existing token or get a new one
-    let token = authState.token;
-    
-    if (!token) {
-      token = await getToken();
-      if (!token) {
-        throw new Error('Failed to get auth token');
-      }
+    if (!(await ensureSession())) {
+      throw new Error('Failed to sign in');
     }
 
     const headers = new Headers(options.headers);
-    headers.set('Authorization', getAuthHeader(token));
-    
     if (!headers.has('Content-Type') && options.body) {
       headers.set('Content-Type', 'application/json');
     }
 
-    return fetch(url, {
-      ...options,
-      headers,
-    });
-  }, [authState.token, getToken]);
+    const response = await fetch(url, { ...options, headers });
+
+    // Session revoked or expired server-side: sign in once more and retry
+    if (response.status === 401) {
+      sessionAddressRef.current = null;
+      if (await signIn()) {
+        return fetch(url, { ...options, headers });
+      }
+    }
+
+    return response;
+  }, [ensureSession, signIn]);
 
   /**
-   * Create a simple mock token for development/demo
-   * (Used when wallet signing is not available)
+   * End the session; pass `everywhere` to revoke every session for the wallet
    */
-  const getMockToken = useCallback((): string | null => {
-    if (!account) return null;
-    
-    const payload = {
-      sub: account.address.toLowerCase(),
-      exp: Math.floor(Date.now() / 1000) + 3600,
-      iat: Math.floor(Date.now() / 1000),
-    };
-    
-    return `mock.${btoa(JSON.stringify(payload))}.demo`;
-  }, [account]);
+  const signOut = useCallback(async (everywhere = false): Promise<void> => {
+    await fetch(`/api/auth/logout${everywhere ? '?all=true' : ''}`, { method: 'POST' });
+    sessionAddressRef.current = null;
+    setAuthState({ sessionAddress: null, loading: false, error: null });
+  }, []);
 
   return {
     account,
-    token: authState.token,
+    sessionAddress: authState.sessionAddress,
     loading: authState.loading,
     error: authState.error,
-    getToken,
-    getMockToken,
+    signIn,
+    signOut,
     authFetch,
     isAuthenticated: !!account,
   };
 }
-
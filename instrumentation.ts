@@ -0,0 +1,43 @@
+// Next.js calls register() once when the server starts.
+//
+// The server refuses to start without VAPID_MASTER_KEY: without it no app
+// could be created and no notification sent.
+//
+// Deployed, Vercel Cron dispatches scheduled notifications and drains the
+// delivery queue (vercel.json). `next dev` has no cron, so both run from an
+// interval instead.
+
+const DEV_DRAIN_INTERVAL_MS = 5000;
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const { assertVapidEncryptionConfigured } = await import('./lib/vapid-encryption');
+  assertVapidEncryptionConfigured();
+
+  if (process.env.NODE_ENV !== 'development') {
+    return;
+  }
+
+  const { dispatchScheduledNotifications, drainDeliveryQueue } = await import('./lib/notifications');
+  const { default: logger } = await import('./lib/logger');
+
+  let draining = false;
+  setInterval(async () => {
+    if (draining) return;
+    draining = true;
+    try {
+      const deadline = Date.now() + DEV_DRAIN_INTERVAL_MS;
+      await dispatchScheduledNotifications(deadline);
+      await drainDeliveryQueue(deadline);
+    } catch (error) {
+      logger.error('Failed to process notification queue', error);
+    } finally {
+      draining = false;
+    }
+  }, DEV_DRAIN_INTERVAL_MS);
+
+  logger.info('Processing the notification queue in-process (development)');
+}
@@ -0,0 +1,46 @@
+/**
+ * API key helpers
+ *
+ * Keys are shown to the owner once and stored only as a digest plus a
+ * short visible prefix. With `API_KEY_PEPPER` set the digest is an
+ * HMAC-SHA256 keyed by the pepper, otherwise a plain SHA-256. Changing
+ * the pepper invalidates every stored key.
+ */
+
+import crypto from 'crypto';
+import type { ApiKey, ApiKeyType } from './types';
+
+const PUBLISHABLE_KEY_MARKER = 'vp_pub_';
+const VISIBLE_KEY_CHARACTERS = 4; // shown after "vp_" / "vp_pub_"
+
+export function generateApiKey(type: ApiKeyType = 'secret'): string {
+  const marker = type === 'publishable' ? PUBLISHABLE_KEY_MARKER : 'vp_';
+  return `${marker}${crypto.randomBytes(24).toString('hex')}`;
+}
+
+export function hashApiKey(apiKey: string): string {
+  const pepper = process.env.API_KEY_PEPPER;
+  return pepper
+    ? crypto.createHmac('sha256', pepper).update(apiKey).digest('hex')
+    : crypto.createHash('sha256').update(apiKey).digest('hex');
+}
+
+export function getApiKeyPrefix(apiKey: string): string {
+  const marker = apiKey.startsWith(PUBLISHABLE_KEY_MARKER) ? PUBLISHABLE_KEY_MARKER : 'vp_';
+  return apiKey.slice(0, marker.length + VISIBLE_KEY_CHARACTERS);
+}
+
+// JSON shape for a key record in API responses (never includes the secret)
+export function toApiKeyResponse(key: ApiKey) {
+  return {
+    id: key.id,
+    name: key.name,
+    type: key.type,
+    keyPrefix: key.keyPrefix,
+    scopes: key.scopes,
+    createdAt: key.createdAt.toISOString(),
+    lastUsedAt: key.lastUsedAt?.toISOString() ?? null,
+    expiresAt: key.expiresAt?.toISOString() ?? null,
+    replacedBy: key.replacedBy ?? null,
+  };
+}
@@ -1,8 +1,11 @@
+import crypto from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
 import type { ZodError } from 'zod';
-import { getAppByApiKey, getAppsByOwner } from './db';
-import type { App, ApiResponse, ErrorCode } from './types';
+import { getAppByApiKey, getAppsByOwner, touchApiKey } from './db';
+import type { ApiKey, ApiKeyScope, App, ApiResponse, ErrorCode } from './types';
 import { ErrorCodes } from './types';
+import type { QuotaExceededError } from './notifications';
+import { SESSION_COOKIE_NAME, verifySessionToken } from './session';
 import logger, { logApiRequest, logAuthFailure } from './logger';
 
 // ============================================================================
@@ -63,6 +66,9 @@ function formatFieldPath(path: Array<string | number>): string {
   return out;
 }
 
+// Secrets are never echoed back in validation issues
+const REDACTED_FIELDS = new Set(['privateKey']);
+
 export function zodValidationErrorResponse(
   error: ZodError,
   input: unknown,
@@ -72,7 +78,9 @@ export function zodValidationErrorResponse(
     fieldPath: formatFieldPath(issue.path),
     message: issue.message,
     code: issue.code,
-    value: getValueAtPath(input, issue.path),
+    value: REDACTED_FIELDS.has(String(issue.path[issue.path.length - 1]))
+      ? '[redacted]'
+      : getValueAtPath(input, issue.path),
   }));
 
   return errorResponse(
@@ -89,17 +97,52 @@ export function zodValidationErrorResponse(
 
 export interface AuthContext {
   app?: App;
+  apiKey?: ApiKey;
   walletAddress?: string;
 }
 
-// Authenticate via API Key (X-API-Key header)
+// Publishable keys are only valid from one of the app's allowed origins.
+// Once an app lists origins, browser requests made with a secret key are
+// held to the same list; server-side requests (no Origin) are not.
+function checkOrigin(
+  app: App,
+  apiKey: ApiKey,
+  origin: string | null
+): { allowed: true; corsOrigin: string | null } | { allowed: false; reason: string } {
+  const allowedOrigins = app.metadata.allowedOrigins ?? [];
+
+  if (apiKey.type === 'publishable') {
+    if (!origin) {
+      return { allowed: false, reason: 'Publishable keys can only be used from a browser' };
+    }
+    if (!allowedOrigins.includes(origin)) {
+      return { allowed: false, reason: `Origin ${origin} is not allowed for this app` };
+    }
+    return { allowed: true, corsOrigin: origin };
+  }
+
+  if (!origin || allowedOrigins.length === 0) {
+    return { allowed: true, corsOrigin: null };
+  }
+  if (!allowedOrigins.includes(origin)) {
+    return { allowed: false, reason: `Origin ${origin} is not allowed for this app` };
+  }
+  return { allowed: true, corsOrigin: origin };
+}
+
+// Authenticate via API Key (X-API-Key header). When `requiredScope` is
+// given, keys without that scope are rejected with FORBIDDEN. `corsOrigin`
+// is the request origin to echo in CORS headers (null: allow any).
 export async function authenticateApiKey(
-  request: NextRequest
-): Promise<{ app: App } | { error: NextResponse }> {
-  const apiKey = request.headers.get('x-api-key');
+  request: NextRequest,
+  requiredScope?: ApiKeyScope
+): Promise<
+  { app: App; apiKey: ApiKey; corsOrigin: string | null } | { error: NextResponse }
+> {
+  const apiKeyHeader = request.headers.get('x-api-key');
   const ip = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
 
-  if (!apiKey) {
+  if (!apiKeyHeader) {
     logAuthFailure('Missing API key', ip);
     return {
       error: errorResponse(
@@ -110,33 +153,79 @@ export async function authenticateApiKey(
     };
   }
 
-  const app = await getAppByApiKey(apiKey);
+  const resolved = await getAppByApiKey(apiKeyHeader);
 
-  if (!app) {
+  if (!resolved) {
     logAuthFailure('Invalid API key', ip);
     return {
       error: errorResponse('Invalid API key', ErrorCodes.INVALID_API_KEY, 401),
     };
   }
 
+  const { app, apiKey } = resolved;
+
+  if (requiredScope && !apiKey.scopes.includes(requiredScope)) {
+    logAuthFailure('API key missing scope', ip, {
+      appId: app.id,
+      keyId: apiKey.id,
+      requiredScope,
+    });
+    return {
+      error: errorResponse(
+        `API key is missing the '${requiredScope}' scope`,
+        ErrorCodes.FORBIDDEN,
+        403
+      ),
+    };
+  }
+
+  const originCheck = checkOrigin(app, apiKey, request.headers.get('origin'));
+  if (!originCheck.allowed) {
+    logAuthFailure('Origin not allowed', ip, {
+      appId: app.id,
+      keyId: apiKey.id,
+      origin: request.headers.get('origin'),
+    });
+    return {
+      error: errorResponse(originCheck.reason, ErrorCodes.FORBIDDEN, 403),
+    };
+  }
+
+  await touchApiKey(apiKey.id);
+
   logApiRequest(
     request.method,
     request.nextUrl.pathname,
     ip,
-    app.id
+    app.id,
+    apiKey.id
   );
 
-  return { app };
+  return { app, apiKey, corsOrigin: originCheck.corsOrigin };
+}
+
+// Tell the caller which key authenticated the request, and when that key
+// stops working (set for rotated keys in their grace period)
+export function apiKeyHeaders(apiKey: ApiKey): HeadersInit {
+  const headers: Record<string, string> = { 'X-API-Key-Id': apiKey.id };
+  if (apiKey.expiresAt) {
+    headers['X-API-Key-Expires'] = apiKey.expiresAt.toISOString();
+  }
+  return headers;
 }
 
-// Verify wallet signature using thirdweb
+// Authenticate a wallet via its SIWE session token (cookie or bearer)
 export async function verifyWalletAuth(
   request: NextRequest
-): Promise<{ walletAddress: string } | { error: NextResponse }> {
+): Promise<{ walletAddress: string; sessionId?: string } | { error: NextResponse }> {
   const authHeader = request.headers.get('authorization');
   const ip = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
 
-  if (!authHeader?.startsWith('Bearer ')) {
+  const token = authHeader?.startsWith('Bearer ')
+    ? authHeader.slice(7)
+    : request.cookies.get(SESSION_COOKIE_NAME)?.value;
+
+  if (!token) {
     logAuthFailure('Missing Authorization header', ip);
     return {
       error: errorResponse(
@@ -147,38 +236,22 @@ export async function verifyWalletAuth(
     };
   }
 
-  const token = authHeader.slice(7);
-
   try {
-    // Decode and verify the JWT token
-    // The token is a base64-encoded JSON containing the wallet address and signature
-    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
-    
-    // Check expiration
-    if (payload.exp && Date.now() / 1000 > payload.exp) {
-      logAuthFailure('Token expired', ip);
-      return {
-        error: errorResponse('Token expired', ErrorCodes.UNAUTHORIZED, 401),
-      };
-    }
+    const session = await verifySessionToken(token);
 
-    const walletAddress = payload.sub || payload.address;
-    
-    if (!walletAddress) {
-      logAuthFailure('Invalid token payload', ip);
+    if ('error' in session) {
+      logAuthFailure('Invalid session', ip, { sessionError: session.error });
       return {
-        error: errorResponse('Invalid token', ErrorCodes.UNAUTHORIZED, 401),
+        error: errorResponse(
+          session.error === 'expired' ? 'Session expired' : 'Invalid session',
+          ErrorCodes.UNAUTHORIZED,
+          401
+        ),
       };
     }
 
-    logApiRequest(
-      request.method,
-      request.nextUrl.pathname,
-      ip,
-      undefined
-    );
-
-    return { walletAddress: walletAddress.toLowerCase() };
+    logApiRequest(request.method, request.nextUrl.pathname, ip, undefined);
+    return session;
   } catch (error) {
     logger.error('Token verification failed', error);
     logAuthFailure('Token verification failed', ip);
@@ -188,6 +261,32 @@ export async function verifyWalletAuth(
   }
 }
 
+// Authenticate scheduled workers. Vercel Cron sends
+// `Authorization: Bearer $CRON_SECRET`; other schedulers must do the same.
+export function verifyCronAuth(request: NextRequest): { ok: true } | { error: NextResponse } {
+  const ip = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    logger.error('CRON_SECRET is not set; refusing worker request');
+    return {
+      error: errorResponse('Worker is not configured', ErrorCodes.INTERNAL_ERROR, 503),
+    };
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(request.headers.get('authorization') || '');
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    logAuthFailure('Invalid cron secret', ip);
+    return {
+      error: errorResponse('Unauthorized', ErrorCodes.UNAUTHORIZED, 401),
+    };
+  }
+
+  logApiRequest(request.method, request.nextUrl.pathname, ip);
+  return { ok: true };
+}
+
 // Check if wallet owns an app
 export async function verifyAppOwnership(
   walletAddress: string,
@@ -213,6 +312,21 @@ export function addRateLimitHeaders(
   return response;
 }
 
+// 429 for a send whose audience does not fit the notification quota
+export function quotaExceededResponse(error: QuotaExceededError): NextResponse<ApiResponse> {
+  const { audience, window, quota } = error;
+  const response = errorResponse(
+    `This notification targets ${audience} recipients but only ${quota.remaining} of the ` +
+      `${window === 'day' ? 'daily' : 'per-minute'} quota of ${quota.limit} remain`,
+    ErrorCodes.QUOTA_EXCEEDED,
+    429,
+    { audience, remaining: quota.remaining, limit: quota.limit, window, resetAt: quota.resetAt.toISOString() }
+  );
+  response.headers.set('Retry-After', Math.max(Math.ceil((quota.resetAt.getTime() - Date.now()) / 1000), 1).toString());
+  addRateLimitHeaders(response, quota.limit, quota.remaining, quota.resetAt);
+  return response;
+}
+
 // ============================================================================
 // Request Parsing
 // ============================================================================
@@ -227,15 +341,29 @@ export async function parseJsonBody<T>(
   }
 }
 
-// CORS Headers for public endpoints
-export function corsHeaders(): HeadersInit {
-  return {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
+// CORS Headers for public endpoints. With an `origin` the response is
+// limited to that origin instead of `*`.
+export function corsHeaders(origin?: string | null): HeadersInit {
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Origin': origin || '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key, Idempotency-Key',
+    'Access-Control-Expose-Headers':
+      'X-API-Key-Id, X-API-Key-Expires, Idempotent-Replayed, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset',
   };
+  if (origin) {
+    headers['Vary'] = 'Origin';
+  }
+  return headers;
 }
 
-export function corsResponse(): NextResponse {
-  return withCors(new NextResponse(null, { status: 204 }));
+// Preflight response. Preflights carry no API key, so endpoints that accept
+// publishable keys echo the requesting origin here and enforce the app's
+// allowlist on the actual request.
+export function corsResponse(origin?: string | null): NextResponse {
+  const response = new NextResponse(null, { status: 204 });
+  Object.entries(corsHeaders(origin)).forEach(([key, value]) => {
+    response.headers.set(key, value);
+  });
+  return response;
 }
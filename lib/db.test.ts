@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { after, before, describe, it } from 'node:test';
+import { closeDatabase, createApp, createSubscription, rotateVapidKeys } from './db';
+import type { App } from './types';
+
+describe('createSubscription', { skip: !process.env.POSTGRES_URL && 'POSTGRES_URL is not set' }, () => {
+  let app: App;
+
+  function subscribe(endpoint: string, vapidKeyVersion?: number) {
+    const p256dh = crypto.randomBytes(65).toString('base64url');
+    const auth = crypto.randomBytes(16).toString('base64url');
+    return createSubscription(app.id, endpoint, p256dh, auth, { vapidKeyVersion });
+  }
+
+  before(async () => {
+    process.env.VAPID_MASTER_KEY ??= crypto.randomBytes(32).toString('hex');
+    ({ app } = await createApp('0x' + crypto.randomBytes(20).toString('hex'), 'Rotation'));
+  });
+
+  after(async () => {
+    await closeDatabase();
+  });
+
+  it('keeps the stored VAPID key version when a re-subscribe after a rotation sends none', async () => {
+    const endpoint = `https://push.example.com/${crypto.randomUUID()}`;
+    const created = await subscribe(endpoint);
+    assert.equal(created.vapidKeyVersion, 1);
+
+    const rotated = await rotateVapidKeys(app.id);
+    assert.equal(rotated?.app.vapidKeyVersion, 2);
+
+    // The browser still holds the version 1 subscription
+    const resubscribed = await subscribe(endpoint);
+    assert.equal(resubscribed.id, created.id);
+    assert.equal(resubscribed.vapidKeyVersion, 1);
+
+    // New subscriptions get the current version
+    assert.equal((await subscribe(`https://push.example.com/${crypto.randomUUID()}`)).vapidKeyVersion, 2);
+
+    // A client that re-subscribed with the new key says so
+    assert.equal((await subscribe(endpoint, 2)).vapidKeyVersion, 2);
+  });
+});
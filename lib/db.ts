@@ -1,9 +1,37 @@
 import postgres, { JSONValue } from 'postgres';
-import { v4 as uuidv4 } from 'uuid';
+import { v4 as uuidv4, validate as isUuid } from 'uuid';
 import crypto from 'crypto';
 import webPush from 'web-push';
-import type { App, AppMetadata, RateLimitConfig, Subscription } from './types';
+import type {
+  ApiKey,
+  ApiKeyScope,
+  ApiKeyType,
+  App,
+  AppMetadata,
+  AuthSession,
+  Delivery,
+  DeliveryAttempt,
+  DeliveryStatus,
+  IdempotencyRecord,
+  NotificationJob,
+  NotificationJobStatus,
+  NotificationTarget,
+  NotificationTemplate,
+  PushFailureClass,
+  PushOptions,
+  PushService,
+  PushUrgency,
+  RateLimitConfig,
+  RateLimitLog,
+  Subscription,
+  VapidKey,
+  VapidKeyPair,
+  VapidKeyStatus,
+} from './types';
+import { API_KEY_SCOPES, DEFAULT_MAX_DELIVERY_ATTEMPTS, DEFAULT_RATE_LIMIT, PUSH_SERVICE_HOSTS } from './types';
 import logger from './logger';
+import { generateApiKey, getApiKeyPrefix, hashApiKey } from './api-keys';
+import { assertVapidEncryptionConfigured, encryptVapidPrivateKey } from './vapid-encryption';
 
 // Initialize postgres client
 const connectionString = process.env.POSTGRES_URL || process.env.DATABASE_URL || '';
@@ -30,11 +58,12 @@ async function runMigrations(): Promise<void> {
         id UUID PRIMARY KEY,
         name VARCHAR(255) NOT NULL,
         owner_wallet VARCHAR(42) NOT NULL,
-        api_key VARCHAR(64) UNIQUE NOT NULL,
+        api_key VARCHAR(64) UNIQUE,
         vapid_public_key TEXT NOT NULL,
-        vapid_private_key TEXT NOT NULL,
+        vapid_private_key TEXT,
+        vapid_key_version INTEGER NOT NULL DEFAULT 1,
         metadata JSONB DEFAULT '{}',
-        rate_limit JSONB DEFAULT '{"maxNotificationsPerMinute": 60, "maxNotificationsPerDay": 10000, "maxSubscriptions": 10000}',
+        rate_limit JSONB DEFAULT '{"maxNotificationsPerMinute": 10000, "maxNotificationsPerDay": 100000, "maxSubscriptions": 10000}',
         created_at TIMESTAMPTZ DEFAULT NOW(),
         updated_at TIMESTAMPTZ DEFAULT NOW()
       )
@@ -50,6 +79,56 @@ async function runMigrations(): Promise<void> {
       CREATE INDEX IF NOT EXISTS idx_apps_api_key ON apps(api_key)
     `;
 
+    // Notification limits used to count /api/send calls and now count
+    // messages; apps still on the old per-call defaults get the new ones
+    await sql`
+      ALTER TABLE apps ALTER COLUMN rate_limit
+      SET DEFAULT '{"maxNotificationsPerMinute": 10000, "maxNotificationsPerDay": 100000, "maxSubscriptions": 10000}'
+    `;
+
+    await sql`
+      UPDATE apps SET rate_limit = '{"maxNotificationsPerMinute": 10000, "maxNotificationsPerDay": 100000, "maxSubscriptions": 10000}'
+      WHERE rate_limit = '{"maxNotificationsPerMinute": 60, "maxNotificationsPerDay": 10000, "maxSubscriptions": 10000}'
+    `;
+
+    // API keys are stored as digests with a short visible prefix
+    await sql`
+      ALTER TABLE apps ADD COLUMN IF NOT EXISTS api_key_prefix VARCHAR(16)
+    `;
+
+    await hashPlaintextApiKeys();
+
+    // Named, scoped API keys (many per app)
+    await sql`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id UUID PRIMARY KEY,
+        app_id UUID NOT NULL REFERENCES apps(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        key_hash VARCHAR(64) UNIQUE NOT NULL,
+        key_prefix VARCHAR(16) NOT NULL,
+        type VARCHAR(16) NOT NULL DEFAULT 'secret',
+        scopes TEXT[] NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        last_used_at TIMESTAMPTZ,
+        expires_at TIMESTAMPTZ
+      )
+    `;
+
+    await sql`
+      ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS type VARCHAR(16) NOT NULL DEFAULT 'secret'
+    `;
+
+    // Set on a rotated key that is still valid during its grace period
+    await sql`
+      ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS replaced_by UUID REFERENCES api_keys(id) ON DELETE SET NULL
+    `;
+
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_api_keys_app_id ON api_keys(app_id)
+    `;
+
+    await moveLegacyApiKeys();
+
     // Subscriptions table with userId/channelId support
     await sql`
       CREATE TABLE IF NOT EXISTS subscriptions (
@@ -80,6 +159,227 @@ async function runMigrations(): Promise<void> {
       CREATE INDEX IF NOT EXISTS idx_subscriptions_channel_id ON subscriptions(app_id, channel_id)
     `;
 
+    // Keyset order for walking an app's subscriptions in batches
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_subscriptions_app_created ON subscriptions(app_id, created_at, id)
+    `;
+
+    // Versioned VAPID keypairs. The active version is mirrored on apps
+    // (vapid_public_key, vapid_key_version); retired versions are kept to
+    // send to subscriptions created under them.
+    await sql`
+      CREATE TABLE IF NOT EXISTS vapid_keys (
+        id UUID PRIMARY KEY,
+        app_id UUID NOT NULL REFERENCES apps(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        public_key TEXT NOT NULL,
+        private_key TEXT NOT NULL,
+        status VARCHAR(16) NOT NULL DEFAULT 'active',
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        retired_at TIMESTAMPTZ,
+        UNIQUE(app_id, version)
+      )
+    `;
+
+    await sql`
+      ALTER TABLE apps ADD COLUMN IF NOT EXISTS vapid_key_version INTEGER NOT NULL DEFAULT 1
+    `;
+
+    await sql`
+      ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS vapid_key_version INTEGER NOT NULL DEFAULT 1
+    `;
+
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_subscriptions_vapid_key_version ON subscriptions(app_id, vapid_key_version)
+    `;
+
+    // Subscriber's language, for picking a variant of localized sends
+    await sql`
+      ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS locale VARCHAR(35)
+    `;
+
+    await moveLegacyVapidKeys();
+
+    // VAPID private keys are stored envelope-encrypted (lib/vapid-encryption.ts)
+    await encryptPlaintextVapidKeys();
+
+    // Outbox for /api/send: one job per send, one delivery per recipient.
+    // Workers claim pending deliveries with FOR UPDATE SKIP LOCKED and hold
+    // them for a lease (locked_until) so a crashed worker's rows are retried.
+    await sql`
+      CREATE TABLE IF NOT EXISTS notification_jobs (
+        id UUID PRIMARY KEY,
+        app_id UUID NOT NULL REFERENCES apps(id) ON DELETE CASCADE,
+        payload JSONB NOT NULL,
+        payload_hash VARCHAR(64),
+        target JSONB NOT NULL DEFAULT '{}',
+        api_key_id UUID REFERENCES api_keys(id) ON DELETE SET NULL,
+        status VARCHAR(16) NOT NULL DEFAULT 'queued',
+        send_at TIMESTAMPTZ,
+        ttl INTEGER NOT NULL DEFAULT 86400,
+        urgency VARCHAR(8) NOT NULL DEFAULT 'normal',
+        topic VARCHAR(32),
+        total INTEGER NOT NULL DEFAULT 0,
+        sent INTEGER NOT NULL DEFAULT 0,
+        failed INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        completed_at TIMESTAMPTZ
+      )
+    `;
+
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_notification_jobs_app ON notification_jobs(app_id, created_at)
+    `;
+
+    // What was sent, to whom and by which key, for support lookups
+    await sql`
+      ALTER TABLE notification_jobs ADD COLUMN IF NOT EXISTS payload_hash VARCHAR(64)
+    `;
+
+    await sql`
+      ALTER TABLE notification_jobs ADD COLUMN IF NOT EXISTS target JSONB NOT NULL DEFAULT '{}'
+    `;
+
+    await sql`
+      ALTER TABLE notification_jobs
+      ADD COLUMN IF NOT EXISTS api_key_id UUID REFERENCES api_keys(id) ON DELETE SET NULL
+    `;
+
+    // Scheduled notifications wait with status 'scheduled' until send_at
+    await sql`
+      ALTER TABLE notification_jobs ADD COLUMN IF NOT EXISTS send_at TIMESTAMPTZ
+    `;
+
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_notification_jobs_scheduled
+      ON notification_jobs(send_at) WHERE status = 'scheduled'
+    `;
+
+    // Web Push TTL / Urgency / Topic headers for every push of the job
+    await sql`
+      ALTER TABLE notification_jobs ADD COLUMN IF NOT EXISTS ttl INTEGER NOT NULL DEFAULT 86400
+    `;
+
+    await sql`
+      ALTER TABLE notification_jobs ADD COLUMN IF NOT EXISTS urgency VARCHAR(8) NOT NULL DEFAULT 'normal'
+    `;
+
+    await sql`
+      ALTER TABLE notification_jobs ADD COLUMN IF NOT EXISTS topic VARCHAR(32)
+    `;
+
+    // Localized sends: every variant by locale; payload holds the fallback's
+    await sql`
+      ALTER TABLE notification_jobs ADD COLUMN IF NOT EXISTS localized JSONB
+    `;
+
+    await sql`
+      ALTER TABLE notification_jobs ADD COLUMN IF NOT EXISTS fallback_locale VARCHAR(35)
+    `;
+
+    // subscription_id has no foreign key so the record outlives the
+    // subscription (e.g. one removed after a 410)
+    await sql`
+      CREATE TABLE IF NOT EXISTS deliveries (
+        id UUID PRIMARY KEY,
+        job_id UUID NOT NULL REFERENCES notification_jobs(id) ON DELETE CASCADE,
+        subscription_id UUID NOT NULL,
+        user_id VARCHAR(255),
+        status VARCHAR(16) NOT NULL DEFAULT 'pending',
+        status_code INTEGER,
+        error TEXT,
+        classification VARCHAR(16),
+        attempts INTEGER NOT NULL DEFAULT 0,
+        locked_until TIMESTAMPTZ,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_deliveries_job ON deliveries(job_id)
+    `;
+
+    await sql`
+      ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS classification VARCHAR(16)
+    `;
+
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_deliveries_pending ON deliveries(created_at) WHERE status = 'pending'
+    `;
+
+    // user_id is copied from the subscription when queued so "did user X get
+    // it?" can still be answered after the subscription is gone
+    await sql`
+      ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS user_id VARCHAR(255)
+    `;
+
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_deliveries_user ON deliveries(user_id, job_id)
+    `;
+
+    // Variant of a localized send that was pushed, set on the first attempt
+    await sql`
+      ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS locale VARCHAR(35)
+    `;
+
+    // Every push to the push service, one row per attempt
+    await sql`
+      CREATE TABLE IF NOT EXISTS delivery_attempts (
+        id UUID PRIMARY KEY,
+        delivery_id UUID NOT NULL REFERENCES deliveries(id) ON DELETE CASCADE,
+        attempt INTEGER NOT NULL,
+        success BOOLEAN NOT NULL,
+        status_code INTEGER,
+        error TEXT,
+        classification VARCHAR(16),
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_delivery_attempts_delivery ON delivery_attempts(delivery_id)
+    `;
+
+    // Reusable notification text with {{variable}} placeholders
+    await sql`
+      CREATE TABLE IF NOT EXISTS notification_templates (
+        id UUID PRIMARY KEY,
+        app_id UUID NOT NULL REFERENCES apps(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        title TEXT NOT NULL,
+        body TEXT,
+        url TEXT,
+        icon TEXT,
+        actions JSONB,
+        defaults JSONB,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_notification_templates_app ON notification_templates(app_id)
+    `;
+
+    // Responses to /api/send requests made with an Idempotency-Key
+    await sql`
+      CREATE TABLE IF NOT EXISTS idempotency_keys (
+        app_id UUID NOT NULL REFERENCES apps(id) ON DELETE CASCADE,
+        key VARCHAR(255) NOT NULL,
+        request_hash VARCHAR(64) NOT NULL,
+        status_code INTEGER,
+        response JSONB,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        expires_at TIMESTAMPTZ NOT NULL,
+        PRIMARY KEY (app_id, key)
+      )
+    `;
+
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires ON idempotency_keys(expires_at)
+    `;
+
     // Rate limiting logs
     await sql`
       CREATE TABLE IF NOT EXISTS rate_limit_logs (
@@ -96,6 +396,31 @@ async function runMigrations(): Promise<void> {
       CREATE INDEX IF NOT EXISTS idx_rate_limit_app_window ON rate_limit_logs(app_id, window_start)
     `;
 
+    // Single-use Sign-In With Ethereum nonces
+    await sql`
+      CREATE TABLE IF NOT EXISTS auth_nonces (
+        nonce VARCHAR(64) PRIMARY KEY,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        expires_at TIMESTAMPTZ NOT NULL
+      )
+    `;
+
+    // Wallet sessions issued after a successful SIWE login
+    await sql`
+      CREATE TABLE IF NOT EXISTS auth_sessions (
+        id UUID PRIMARY KEY,
+        wallet_address VARCHAR(42) NOT NULL,
+        chain_id INTEGER NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        expires_at TIMESTAMPTZ NOT NULL,
+        revoked_at TIMESTAMPTZ
+      )
+    `;
+
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_auth_sessions_wallet ON auth_sessions(wallet_address)
+    `;
+
     logger.info('Database initialized successfully');
   } catch (error) {
     logger.error('Failed to initialize database', error);
@@ -103,6 +428,97 @@ async function runMigrations(): Promise<void> {
   }
 }
 
+// One-time migration: replace plaintext keys with their digest in place
+async function hashPlaintextApiKeys(): Promise<void> {
+  const rows = await sql`
+    SELECT id, api_key FROM apps WHERE api_key LIKE 'vp_%'
+  `;
+
+  for (const row of rows) {
+    const apiKey = row.api_key as string;
+    await sql`
+      UPDATE apps
+      SET api_key = ${hashApiKey(apiKey)}, api_key_prefix = ${getApiKeyPrefix(apiKey)}
+      WHERE id = ${row.id as string} AND api_key = ${apiKey}
+    `;
+  }
+
+  if (rows.length > 0) {
+    logger.info('Hashed plaintext API keys', { count: rows.length });
+  }
+}
+
+// One-time migration: encrypt VAPID private keys still stored in plain text
+async function encryptPlaintextVapidKeys(): Promise<void> {
+  assertVapidEncryptionConfigured();
+
+  const rows = await sql`
+    SELECT id, app_id, private_key FROM vapid_keys WHERE private_key NOT LIKE 'enc:%'
+  `;
+
+  for (const row of rows) {
+    const privateKey = row.private_key as string;
+    await sql`
+      UPDATE vapid_keys
+      SET private_key = ${encryptVapidPrivateKey(privateKey, row.app_id as string)}
+      WHERE id = ${row.id as string} AND private_key = ${privateKey}
+    `;
+  }
+
+  if (rows.length > 0) {
+    logger.info('Encrypted plaintext VAPID private keys', { count: rows.length });
+  }
+}
+
+// One-time migration: the single apps.api_key becomes a "Default" key
+// with every scope in api_keys
+async function moveLegacyApiKeys(): Promise<void> {
+  await sql`
+    ALTER TABLE apps ALTER COLUMN api_key DROP NOT NULL
+  `;
+
+  const moved = await sql`
+    INSERT INTO api_keys (id, app_id, name, key_hash, key_prefix, scopes, created_at)
+    SELECT gen_random_uuid(), id, 'Default', api_key, COALESCE(api_key_prefix, 'vp_'), ${sql.array([...API_KEY_SCOPES])}, created_at
+    FROM apps
+    WHERE api_key IS NOT NULL
+    ON CONFLICT (key_hash) DO NOTHING
+    RETURNING id
+  `;
+
+  await sql`
+    UPDATE apps SET api_key = NULL, api_key_prefix = NULL WHERE api_key IS NOT NULL
+  `;
+
+  if (moved.length > 0) {
+    logger.info('Moved legacy API keys to api_keys', { count: moved.length });
+  }
+}
+
+// One-time migration: each app's keypair becomes version 1 in vapid_keys
+async function moveLegacyVapidKeys(): Promise<void> {
+  await sql`
+    ALTER TABLE apps ALTER COLUMN vapid_private_key DROP NOT NULL
+  `;
+
+  const moved = await sql`
+    INSERT INTO vapid_keys (id, app_id, version, public_key, private_key, status, created_at)
+    SELECT gen_random_uuid(), id, 1, vapid_public_key, vapid_private_key, 'active', created_at
+    FROM apps
+    WHERE vapid_private_key IS NOT NULL
+    ON CONFLICT (app_id, version) DO NOTHING
+    RETURNING id
+  `;
+
+  await sql`
+    UPDATE apps SET vapid_private_key = NULL WHERE vapid_private_key IS NOT NULL
+  `;
+
+  if (moved.length > 0) {
+    logger.info('Moved VAPID keys to vapid_keys', { count: moved.length });
+  }
+}
+
 // Ensure database is initialized (call before any DB operation)
 export async function ensureDatabase(): Promise<void> {
   if (dbInitialized) return;
@@ -119,14 +535,15 @@ export async function ensureDatabase(): Promise<void> {
 // Legacy export for compatibility
 export const initializeDatabase = ensureDatabase;
 
+// Close the connection pool so a script or test run can exit
+export async function closeDatabase(): Promise<void> {
+  await sql.end();
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
-function generateApiKey(): string {
-  return `vp_${crypto.randomBytes(24).toString('hex')}`;
-}
-
 function generateVapidKeys(): { publicKey: string; privateKey: string } {
   return webPush.generateVAPIDKeys();
 }
@@ -136,15 +553,10 @@ function mapRowToApp(row: Record<string, unknown>): App {
     id: row.id as string,
     name: row.name as string,
     ownerWallet: row.owner_wallet as string,
-    apiKey: row.api_key as string,
     vapidPublicKey: row.vapid_public_key as string,
-    vapidPrivateKey: row.vapid_private_key as string,
+    vapidKeyVersion: row.vapid_key_version as number,
     metadata: (row.metadata || {}) as AppMetadata,
-    rateLimit: (row.rate_limit || {
-      maxNotificationsPerMinute: 60,
-      maxNotificationsPerDay: 10000,
-      maxSubscriptions: 10000,
-    }) as RateLimitConfig,
+    rateLimit: (row.rate_limit || DEFAULT_RATE_LIMIT) as RateLimitConfig,
     createdAt: new Date(row.created_at as string),
     updatedAt: new Date(row.updated_at as string),
   };
@@ -160,56 +572,207 @@ function mapRowToSubscription(row: Record<string, unknown>): Subscription {
     userId: row.user_id as string | undefined,
     channelId: row.channel_id as string | undefined,
     metadata: (row.metadata || {}) as Record<string, unknown>,
+    locale: (row.locale as string | null) ?? undefined,
+    vapidKeyVersion: row.vapid_key_version as number,
     createdAt: new Date(row.created_at as string),
     expiresAt: row.expires_at ? new Date(row.expires_at as string) : undefined,
   };
 }
 
-// ============================================================================
-// App CRUD Operations
-// ============================================================================
-
-export async function createApp(
-  ownerWallet: string,
-  name: string,
-  metadata?: AppMetadata
-): Promise<App> {
-  await ensureDatabase();
-  const id = uuidv4();
-  const apiKey = generateApiKey();
-  const vapidKeys = generateVapidKeys();
-  const metadataJson = metadata || {};
+function mapRowToVapidKey(row: Record<string, unknown>): VapidKey {
+  return {
+    id: row.id as string,
+    appId: row.app_id as string,
+    version: row.version as number,
+    publicKey: row.public_key as string,
+    encryptedPrivateKey: row.private_key as string,
+    status: row.status as VapidKeyStatus,
+    createdAt: new Date(row.created_at as string),
+    retiredAt: row.retired_at ? new Date(row.retired_at as string) : undefined,
+  };
+}
 
-  const result = await sql`
-    INSERT INTO apps (id, name, owner_wallet, api_key, vapid_public_key, vapid_private_key, metadata)
-    VALUES (${id}, ${name}, ${ownerWallet.toLowerCase()}, ${apiKey}, ${vapidKeys.publicKey}, ${vapidKeys.privateKey}, ${sql.json(metadataJson as unknown as JSONValue)})
-    RETURNING *
-  `;
+function mapRowToApiKey(row: Record<string, unknown>): ApiKey {
+  return {
+    id: row.id as string,
+    appId: row.app_id as string,
+    name: row.name as string,
+    type: row.type as ApiKeyType,
+    keyPrefix: row.key_prefix as string,
+    scopes: row.scopes as ApiKeyScope[],
+    createdAt: new Date(row.created_at as string),
+    lastUsedAt: row.last_used_at ? new Date(row.last_used_at as string) : undefined,
+    expiresAt: row.expires_at ? new Date(row.expires_at as string) : undefined,
+    replacedBy: (row.replaced_by as string | null) ?? undefined,
+  };
+}
 
-  logger.info('Created new app', { appId: id, ownerWallet: ownerWallet.toLowerCase() });
-  return mapRowToApp(result[0]);
+function mapRowToNotificationJob(row: Record<string, unknown>): NotificationJob {
+  return {
+    id: row.id as string,
+    appId: row.app_id as string,
+    payload: row.payload as Record<string, unknown>,
+    payloadHash: (row.payload_hash as string | null) ?? '',
+    localized: (row.localized as Record<string, Record<string, unknown>> | null) ?? undefined,
+    fallbackLocale: (row.fallback_locale as string | null) ?? undefined,
+    target: (row.target as NotificationTarget | null) ?? {},
+    apiKeyId: (row.api_key_id as string | null) ?? undefined,
+    status: row.status as NotificationJobStatus,
+    sendAt: row.send_at ? new Date(row.send_at as string) : undefined,
+    ttl: row.ttl as number,
+    urgency: row.urgency as PushUrgency,
+    topic: (row.topic as string | null) ?? undefined,
+    total: row.total as number,
+    sent: row.sent as number,
+    failed: row.failed as number,
+    createdAt: new Date(row.created_at as string),
+    completedAt: row.completed_at ? new Date(row.completed_at as string) : undefined,
+  };
 }
 
-export async function getAppById(id: string): Promise<App | null> {
-  await ensureDatabase();
-  const result = await sql`
-    SELECT * FROM apps WHERE id = ${id}
-  `;
-  
-  if (result.length === 0) return null;
-  return mapRowToApp(result[0]);
+function mapRowToDelivery(row: Record<string, unknown>): Delivery {
+  return {
+    id: row.id as string,
+    jobId: row.job_id as string,
+    subscriptionId: row.subscription_id as string,
+    userId: (row.user_id as string | null) ?? undefined,
+    locale: (row.locale as string | null) ?? undefined,
+    status: row.status as DeliveryStatus,
+    statusCode: (row.status_code as number | null) ?? undefined,
+    error: (row.error as string | null) ?? undefined,
+    classification: (row.classification as PushFailureClass | null) ?? undefined,
+    attempts: row.attempts as number,
+    nextAttemptAt: row.status === 'pending' && row.locked_until
+      ? new Date(row.locked_until as string)
+      : undefined,
+    createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
 }
 
-export async function getAppByApiKey(apiKey: string): Promise<App | null> {
+function mapRowToDeliveryAttempt(row: Record<string, unknown>): DeliveryAttempt {
+  return {
+    id: row.id as string,
+    deliveryId: row.delivery_id as string,
+    attempt: row.attempt as number,
+    success: row.success as boolean,
+    statusCode: (row.status_code as number | null) ?? undefined,
+    error: (row.error as string | null) ?? undefined,
+    classification: (row.classification as PushFailureClass | null) ?? undefined,
+    createdAt: new Date(row.created_at as string),
+  };
+}
+
+function mapRowToTemplate(row: Record<string, unknown>): NotificationTemplate {
+  return {
+    id: row.id as string,
+    appId: row.app_id as string,
+    name: row.name as string,
+    title: row.title as string,
+    body: (row.body as string | null) ?? undefined,
+    url: (row.url as string | null) ?? undefined,
+    icon: (row.icon as string | null) ?? undefined,
+    actions: (row.actions as NotificationTemplate['actions'] | null) ?? undefined,
+    defaults: (row.defaults as Record<string, string> | null) ?? undefined,
+    createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
+}
+
+function mapRowToIdempotencyRecord(row: Record<string, unknown>): IdempotencyRecord {
+  return {
+    appId: row.app_id as string,
+    key: row.key as string,
+    requestHash: row.request_hash as string,
+    statusCode: (row.status_code as number | null) ?? undefined,
+    response: row.response ?? undefined,
+    createdAt: new Date(row.created_at as string),
+    expiresAt: new Date(row.expires_at as string),
+  };
+}
+
+function mapRowToAuthSession(row: Record<string, unknown>): AuthSession {
+  return {
+    id: row.id as string,
+    walletAddress: row.wallet_address as string,
+    chainId: row.chain_id as number,
+    createdAt: new Date(row.created_at as string),
+    expiresAt: new Date(row.expires_at as string),
+    revokedAt: row.revoked_at ? new Date(row.revoked_at as string) : undefined,
+  };
+}
+
+// ============================================================================
+// App CRUD Operations
+// ============================================================================
+
+// Creates the app with a "Default" key holding every scope. The plaintext
+// key is returned alongside the app; it is not stored and cannot be
+// retrieved again. A VAPID keypair is generated unless one is supplied
+// (already validated by VapidKeyPairSchema).
+export async function createApp(
+  ownerWallet: string,
+  name: string,
+  metadata?: AppMetadata,
+  importedVapidKeys?: VapidKeyPair
+): Promise<{ app: App; apiKey: string; apiKeyRecord: ApiKey }> {
+  await ensureDatabase();
+  const id = uuidv4();
+  const apiKey = generateApiKey();
+  const vapidKeys = importedVapidKeys ?? generateVapidKeys();
+  const metadataJson = metadata || {};
+
+  const [appRow, keyRow] = await sql.begin(async (tx) => {
+    const apps = await tx`
+      INSERT INTO apps (id, name, owner_wallet, vapid_public_key, vapid_key_version, metadata)
+      VALUES (${id}, ${name}, ${ownerWallet.toLowerCase()}, ${vapidKeys.publicKey}, 1, ${sql.json(metadataJson as unknown as JSONValue)})
+      RETURNING *
+    `;
+    await tx`
+      INSERT INTO vapid_keys (id, app_id, version, public_key, private_key, status)
+      VALUES (${uuidv4()}, ${id}, 1, ${vapidKeys.publicKey}, ${encryptVapidPrivateKey(vapidKeys.privateKey, id)}, 'active')
+    `;
+    const keys = await tx`
+      INSERT INTO api_keys (id, app_id, name, key_hash, key_prefix, scopes)
+      VALUES (${uuidv4()}, ${id}, 'Default', ${hashApiKey(apiKey)}, ${getApiKeyPrefix(apiKey)}, ${sql.array([...API_KEY_SCOPES])})
+      RETURNING *
+    `;
+    return [apps[0], keys[0]];
+  });
+
+  logger.info('Created new app', { appId: id, ownerWallet: ownerWallet.toLowerCase() });
+  return { app: mapRowToApp(appRow), apiKey, apiKeyRecord: mapRowToApiKey(keyRow) };
+}
+
+export async function getAppById(id: string): Promise<App | null> {
   await ensureDatabase();
   const result = await sql`
-    SELECT * FROM apps WHERE api_key = ${apiKey}
+    SELECT * FROM apps WHERE id = ${id}
   `;
   
   if (result.length === 0) return null;
   return mapRowToApp(result[0]);
 }
 
+// Resolve a plaintext API key to its (unexpired) key record and app
+export async function getAppByApiKey(
+  apiKey: string
+): Promise<{ app: App; apiKey: ApiKey } | null> {
+  await ensureDatabase();
+  const keys = await sql`
+    SELECT * FROM api_keys
+    WHERE key_hash = ${hashApiKey(apiKey)}
+      AND (expires_at IS NULL OR expires_at > NOW())
+  `;
+
+  if (keys.length === 0) return null;
+
+  const app = await getAppById(keys[0].app_id as string);
+  if (!app) return null;
+
+  return { app, apiKey: mapRowToApiKey(keys[0]) };
+}
+
 export async function getAppsByOwner(ownerWallet: string): Promise<App[]> {
   await ensureDatabase();
   const result = await sql`
@@ -242,6 +805,144 @@ export async function updateApp(
   return mapRowToApp(result[0]);
 }
 
+// ============================================================================
+// VAPID Key Versions
+// ============================================================================
+
+// Make a new VAPID keypair (imported, or generated when omitted) the app's
+// active key. The previous active key is retired but kept, so subscriptions
+// created under it can still be sent to.
+export async function rotateVapidKeys(
+  appId: string,
+  importedVapidKeys?: VapidKeyPair
+): Promise<{ app: App; vapidKey: VapidKey } | null> {
+  await ensureDatabase();
+  const vapidKeys = importedVapidKeys ?? generateVapidKeys();
+
+  const rotated = await sql.begin(async (tx) => {
+    // Lock the app row so concurrent rotations get distinct versions
+    const apps = await tx`
+      SELECT id FROM apps WHERE id = ${appId} FOR UPDATE
+    `;
+    if (apps.length === 0) return null;
+
+    const [{ next_version: nextVersion }] = await tx`
+      SELECT COALESCE(MAX(version), 0) + 1 AS next_version FROM vapid_keys WHERE app_id = ${appId}
+    `;
+
+    await tx`
+      UPDATE vapid_keys SET status = 'retired', retired_at = NOW()
+      WHERE app_id = ${appId} AND status = 'active'
+    `;
+
+    const keys = await tx`
+      INSERT INTO vapid_keys (id, app_id, version, public_key, private_key, status)
+      VALUES (${uuidv4()}, ${appId}, ${nextVersion as number}, ${vapidKeys.publicKey}, ${encryptVapidPrivateKey(vapidKeys.privateKey, appId)}, 'active')
+      RETURNING *
+    `;
+
+    const updatedApps = await tx`
+      UPDATE apps
+      SET vapid_public_key = ${vapidKeys.publicKey}, vapid_key_version = ${nextVersion as number}, updated_at = NOW()
+      WHERE id = ${appId}
+      RETURNING *
+    `;
+
+    return { app: mapRowToApp(updatedApps[0]), vapidKey: mapRowToVapidKey(keys[0]) };
+  });
+
+  if (rotated) {
+    logger.info('Rotated VAPID keys', {
+      appId,
+      version: rotated.vapidKey.version,
+      imported: !!importedVapidKeys,
+    });
+  }
+  return rotated;
+}
+
+export async function getVapidKeysByVersions(
+  appId: string,
+  versions: number[]
+): Promise<VapidKey[]> {
+  await ensureDatabase();
+  if (versions.length === 0) return [];
+  const result = await sql`
+    SELECT * FROM vapid_keys WHERE app_id = ${appId} AND version = ANY(${versions}::int[])
+  `;
+  return result.map(mapRowToVapidKey);
+}
+
+// All key versions (newest first) with how many subscriptions use each
+export async function getVapidKeysWithUsage(
+  appId: string
+): Promise<Array<{ vapidKey: VapidKey; subscriptionCount: number }>> {
+  await ensureDatabase();
+  const result = await sql`
+    SELECT k.*, COALESCE(s.count, 0)::int AS subscription_count
+    FROM vapid_keys k
+    LEFT JOIN (
+      SELECT vapid_key_version, COUNT(*) AS count
+      FROM subscriptions
+      WHERE app_id = ${appId}
+      GROUP BY vapid_key_version
+    ) s ON s.vapid_key_version = k.version
+    WHERE k.app_id = ${appId}
+    ORDER BY k.version DESC
+  `;
+  return result.map((row) => ({
+    vapidKey: mapRowToVapidKey(row),
+    subscriptionCount: row.subscription_count as number,
+  }));
+}
+
+// Delete a retired key version. Subscriptions created under it can no
+// longer be sent to, so they are deleted too; unless `force` is set the
+// call is refused while any remain.
+export async function deleteVapidKey(
+  appId: string,
+  version: number,
+  force: boolean
+): Promise<
+  | { deleted: true; deletedSubscriptions: number }
+  | { deleted: false; reason: 'not_found' | 'active' | 'in_use'; subscriptionCount?: number }
+> {
+  await ensureDatabase();
+
+  const outcome = await sql.begin(async (tx) => {
+    const keys = await tx`
+      SELECT status FROM vapid_keys WHERE app_id = ${appId} AND version = ${version} FOR UPDATE
+    `;
+    if (keys.length === 0) return { deleted: false as const, reason: 'not_found' as const };
+    if (keys[0].status === 'active') return { deleted: false as const, reason: 'active' as const };
+
+    const [{ count }] = await tx`
+      SELECT COUNT(*)::int AS count FROM subscriptions
+      WHERE app_id = ${appId} AND vapid_key_version = ${version}
+    `;
+    if ((count as number) > 0 && !force) {
+      return { deleted: false as const, reason: 'in_use' as const, subscriptionCount: count as number };
+    }
+
+    await tx`
+      DELETE FROM subscriptions WHERE app_id = ${appId} AND vapid_key_version = ${version}
+    `;
+    await tx`
+      DELETE FROM vapid_keys WHERE app_id = ${appId} AND version = ${version}
+    `;
+    return { deleted: true as const, deletedSubscriptions: count as number };
+  });
+
+  if (outcome.deleted) {
+    logger.info('Deleted VAPID key version', {
+      appId,
+      version,
+      deletedSubscriptions: outcome.deletedSubscriptions,
+    });
+  }
+  return outcome;
+}
+
 export async function deleteApp(id: string): Promise<boolean> {
   await ensureDatabase();
   const result = await sql`
@@ -256,20 +957,172 @@ export async function deleteApp(id: string): Promise<boolean> {
   return false;
 }
 
-export async function regenerateApiKey(id: string): Promise<string | null> {
+// Rotate one of the app's keys (its oldest current key if no keyId is
+// given): a new key with the same name, type and scopes is issued and the
+// old one stays valid for `gracePeriodSeconds`, or is deleted right away
+// when that is 0. Keys that were already rotated cannot be rotated again.
+export async function regenerateApiKey(
+  appId: string,
+  keyId: string | undefined,
+  gracePeriodSeconds: number
+): Promise<{ apiKey: string; apiKeyRecord: ApiKey; previousKey: ApiKey | null } | null> {
   await ensureDatabase();
-  const newApiKey = generateApiKey();
-  
+
+  return sql.begin(async (tx) => {
+    const existing = await tx`
+      SELECT * FROM api_keys
+      WHERE app_id = ${appId}
+        AND replaced_by IS NULL
+        AND (expires_at IS NULL OR expires_at > NOW())
+        AND (${keyId ?? null}::uuid IS NULL OR id = ${keyId ?? null}::uuid)
+      ORDER BY created_at ASC
+      LIMIT 1
+      FOR UPDATE
+    `;
+
+    if (existing.length === 0) return null;
+    const oldKey = existing[0];
+
+    // The new key keeps the old one's type, so a publishable key stays publishable
+    const newApiKey = generateApiKey(oldKey.type as ApiKeyType);
+    const newKeyId = uuidv4();
+
+    const inserted = await tx`
+      INSERT INTO api_keys (id, app_id, name, key_hash, key_prefix, type, scopes, expires_at)
+      VALUES (${newKeyId}, ${appId}, ${oldKey.name as string}, ${hashApiKey(newApiKey)}, ${getApiKeyPrefix(newApiKey)}, ${oldKey.type as string}, ${sql.array(oldKey.scopes as string[])}, ${oldKey.expires_at as Date | null})
+      RETURNING *
+    `;
+
+    let previousKey: ApiKey | null = null;
+    if (gracePeriodSeconds > 0) {
+      const updated = await tx`
+        UPDATE api_keys
+        SET
+          replaced_by = ${newKeyId},
+          expires_at = LEAST(
+            COALESCE(expires_at, 'infinity'::timestamptz),
+            NOW() + make_interval(secs => ${gracePeriodSeconds})
+          )
+        WHERE id = ${oldKey.id as string}
+        RETURNING *
+      `;
+      previousKey = mapRowToApiKey(updated[0]);
+    } else {
+      await tx`DELETE FROM api_keys WHERE id = ${oldKey.id as string}`;
+    }
+
+    logger.info('Rotated API key', {
+      appId,
+      oldKeyId: oldKey.id,
+      newKeyId,
+      gracePeriodSeconds,
+    });
+
+    return { apiKey: newApiKey, apiKeyRecord: mapRowToApiKey(inserted[0]), previousKey };
+  });
+}
+
+// ============================================================================
+// API Key CRUD Operations
+// ============================================================================
+
+export async function createApiKey(
+  appId: string,
+  name: string,
+  scopes: ApiKeyScope[],
+  expiresAt?: Date,
+  type: ApiKeyType = 'secret'
+): Promise<{ apiKey: string; apiKeyRecord: ApiKey }> {
+  await ensureDatabase();
+  const apiKey = generateApiKey(type);
+
   const result = await sql`
-    UPDATE apps 
-    SET api_key = ${newApiKey}, updated_at = NOW()
-    WHERE id = ${id}
-    RETURNING api_key
+    INSERT INTO api_keys (id, app_id, name, key_hash, key_prefix, type, scopes, expires_at)
+    VALUES (${uuidv4()}, ${appId}, ${name}, ${hashApiKey(apiKey)}, ${getApiKeyPrefix(apiKey)}, ${type}, ${sql.array(scopes)}, ${expiresAt ? expiresAt.toISOString() : null})
+    RETURNING *
+  `;
+
+  logger.info('Created API key', { appId, keyId: result[0].id, type, scopes });
+  return { apiKey, apiKeyRecord: mapRowToApiKey(result[0]) };
+}
+
+export async function getApiKeysByApp(appId: string): Promise<ApiKey[]> {
+  await ensureDatabase();
+  const result = await sql`
+    SELECT * FROM api_keys WHERE app_id = ${appId}
+    ORDER BY created_at ASC
+  `;
+
+  return result.map(mapRowToApiKey);
+}
+
+export async function getApiKeysByApps(appIds: string[]): Promise<ApiKey[]> {
+  if (appIds.length === 0) return [];
+  await ensureDatabase();
+  const result = await sql`
+    SELECT * FROM api_keys WHERE app_id = ANY(${appIds})
+    ORDER BY created_at ASC
+  `;
+
+  return result.map(mapRowToApiKey);
+}
+
+export async function getApiKeyById(appId: string, keyId: string): Promise<ApiKey | null> {
+  if (!isUuid(keyId)) return null;
+  await ensureDatabase();
+  const result = await sql`
+    SELECT * FROM api_keys WHERE id = ${keyId} AND app_id = ${appId}
+  `;
+
+  if (result.length === 0) return null;
+  return mapRowToApiKey(result[0]);
+}
+
+export async function updateApiKey(
+  appId: string,
+  keyId: string,
+  updates: { name?: string; scopes?: ApiKeyScope[]; expiresAt?: Date | null }
+): Promise<ApiKey | null> {
+  if (!isUuid(keyId)) return null;
+  await ensureDatabase();
+  const result = await sql`
+    UPDATE api_keys
+    SET
+      name = COALESCE(${updates.name ?? null}, name),
+      scopes = COALESCE(${updates.scopes ? sql.array(updates.scopes) : null}, scopes),
+      expires_at = ${updates.expiresAt === undefined ? sql`expires_at` : updates.expiresAt ? updates.expiresAt.toISOString() : null}
+    WHERE id = ${keyId} AND app_id = ${appId}
+    RETURNING *
   `;
 
   if (result.length === 0) return null;
-  logger.info('Regenerated API key', { appId: id });
-  return result[0].api_key as string;
+  logger.info('Updated API key', { appId, keyId });
+  return mapRowToApiKey(result[0]);
+}
+
+export async function deleteApiKey(appId: string, keyId: string): Promise<boolean> {
+  if (!isUuid(keyId)) return false;
+  await ensureDatabase();
+  const result = await sql`
+    DELETE FROM api_keys WHERE id = ${keyId} AND app_id = ${appId}
+    RETURNING id
+  `;
+
+  if (result.length > 0) {
+    logger.info('Deleted API key', { appId, keyId });
+    return true;
+  }
+  return false;
+}
+
+// Record usage at most once a minute per key to avoid a write per request
+export async function touchApiKey(keyId: string): Promise<void> {
+  await ensureDatabase();
+  await sql`
+    UPDATE api_keys SET last_used_at = NOW()
+    WHERE id = ${keyId}
+      AND (last_used_at IS NULL OR last_used_at < NOW() - INTERVAL '1 minute')
+  `;
 }
 
 // ============================================================================
@@ -285,7 +1138,11 @@ export async function createSubscription(
     userId?: string;
     channelId?: string;
     metadata?: Record<string, unknown>;
+    locale?: string;
     expirationTime?: number | null;
+    // Omitted, a new subscription gets the app's current version and an
+    // existing one keeps the version it was created with
+    vapidKeyVersion?: number;
   }
 ): Promise<Subscription> {
   await ensureDatabase();
@@ -297,8 +1154,9 @@ export async function createSubscription(
 
   // Use upsert to handle duplicate endpoints
   const result = await sql`
-    INSERT INTO subscriptions (id, app_id, endpoint, p256dh, auth, user_id, channel_id, metadata, expires_at)
-    VALUES (${id}, ${appId}, ${endpoint}, ${p256dh}, ${auth}, ${options?.userId ?? null}, ${options?.channelId ?? null}, ${sql.json(metadataJson as unknown as JSONValue)}, ${expiresAt})
+    INSERT INTO subscriptions (id, app_id, endpoint, p256dh, auth, user_id, channel_id, metadata, locale, expires_at, vapid_key_version)
+    VALUES (${id}, ${appId}, ${endpoint}, ${p256dh}, ${auth}, ${options?.userId ?? null}, ${options?.channelId ?? null}, ${sql.json(metadataJson as unknown as JSONValue)}, ${options?.locale ?? null}, ${expiresAt},
+      COALESCE(${options?.vapidKeyVersion ?? null}::int, (SELECT vapid_key_version FROM apps WHERE id = ${appId})))
     ON CONFLICT (app_id, endpoint) 
     DO UPDATE SET 
       p256dh = EXCLUDED.p256dh,
@@ -306,7 +1164,9 @@ export async function createSubscription(
       user_id = EXCLUDED.user_id,
       channel_id = EXCLUDED.channel_id,
       metadata = EXCLUDED.metadata,
-      expires_at = EXCLUDED.expires_at
+      locale = EXCLUDED.locale,
+      expires_at = EXCLUDED.expires_at,
+      vapid_key_version = COALESCE(${options?.vapidKeyVersion ?? null}::int, subscriptions.vapid_key_version)
     RETURNING *
   `;
 
@@ -314,74 +1174,110 @@ export async function createSubscription(
   return mapRowToSubscription(result[0]);
 }
 
-export async function getSubscriptionById(id: string): Promise<Subscription | null> {
+// With an appId, only that app's subscription is found
+export async function getSubscriptionById(id: string, appId?: string): Promise<Subscription | null> {
+  if (!isUuid(id)) return null;
   await ensureDatabase();
   const result = await sql`
-    SELECT * FROM subscriptions WHERE id = ${id}
+    SELECT * FROM subscriptions
+    WHERE id = ${id} ${appId ? sql`AND app_id = ${appId}` : sql``}
   `;
   
   if (result.length === 0) return null;
   return mapRowToSubscription(result[0]);
 }
 
+// Keyset position in an app's subscriptions ordered by (created_at, id).
+// createdAt is Postgres' text form: a JS Date would drop the microseconds
+// and repeat or skip rows at page boundaries.
+export interface SubscriptionCursor {
+  createdAt: string;
+  id: string;
+}
+
+// Live subscriptions matched by targeting options: subscriptionIds win over
+// userId/channelId; no options match every subscription of the app
+function subscriptionTargetFilter(
+  appId: string,
+  target: NotificationTarget,
+  after?: SubscriptionCursor | null
+) {
+  return sql`
+    s.app_id = ${appId}
+    AND (s.expires_at IS NULL OR s.expires_at > NOW())
+    ${target.subscriptionIds && target.subscriptionIds.length > 0
+      ? sql`AND s.id = ANY(${target.subscriptionIds.filter((subscriptionId) => isUuid(subscriptionId))})`
+      : sql`
+          ${target.userId ? sql`AND s.user_id = ${target.userId}` : sql``}
+          ${target.channelId ? sql`AND s.channel_id = ${target.channelId}` : sql``}
+        `}
+    ${after
+      // Through text: a timestamptz parameter is serialized via a JS Date
+      ? sql`AND (s.created_at, s.id) > (${after.createdAt}::text::timestamptz, ${after.id}::uuid)`
+      : sql``}
+  `;
+}
+
+// Narrows a subscription listing beyond the targeting options
+export interface SubscriptionFilter {
+  metadata?: Record<string, string>; // compared with the values as text
+  createdAfter?: Date;
+  createdBefore?: Date;
+  pushService?: PushService;
+}
+
+function subscriptionListFilter(filter: SubscriptionFilter) {
+  const metadata = Object.entries(filter.metadata ?? {}).reduce(
+    (conditions, [key, value]) => sql`${conditions} AND s.metadata ->> ${key} = ${value}`,
+    sql``
+  );
+
+  return sql`
+    ${metadata}
+    ${filter.createdAfter ? sql`AND s.created_at > ${filter.createdAfter.toISOString()}` : sql``}
+    ${filter.createdBefore ? sql`AND s.created_at < ${filter.createdBefore.toISOString()}` : sql``}
+    ${filter.pushService
+      ? sql`
+          AND EXISTS (
+            SELECT 1 FROM unnest(${[...PUSH_SERVICE_HOSTS[filter.pushService]]}::text[]) AS service(host)
+            WHERE lower(substring(s.endpoint from '^[^:]+://([^/:?#]+)')) = service.host
+              OR lower(substring(s.endpoint from '^[^:]+://([^/:?#]+)')) LIKE '%.' || service.host
+          )
+        `
+      : sql``}
+  `;
+}
+
+// One page of the subscriptions matched by `target` and `filter`, oldest
+// first. Pass nextCursor back as `after` for the following page; it is
+// null after the last one.
 export async function getSubscriptionsByApp(
   appId: string,
-  options?: {
-    userId?: string;
-    channelId?: string;
-    limit?: number;
-    offset?: number;
+  options: {
+    target?: NotificationTarget;
+    filter?: SubscriptionFilter;
+    after?: SubscriptionCursor;
+    limit: number;
   }
-): Promise<Subscription[]> {
+): Promise<{ subscriptions: Subscription[]; nextCursor: SubscriptionCursor | null }> {
   await ensureDatabase();
-  const limit = options?.limit || 1000;
-  const offset = options?.offset || 0;
-  
-  let result;
-  
-  if (options?.userId && options?.channelId) {
-    result = await sql`
-      SELECT * FROM subscriptions 
-      WHERE app_id = ${appId} 
-        AND user_id = ${options.userId}
-        AND channel_id = ${options.channelId}
-        AND (expires_at IS NULL OR expires_at > NOW())
-      ORDER BY created_at DESC
-      LIMIT ${limit}
-      OFFSET ${offset}
-    `;
-  } else if (options?.userId) {
-    result = await sql`
-      SELECT * FROM subscriptions 
-      WHERE app_id = ${appId} 
-        AND user_id = ${options.userId}
-        AND (expires_at IS NULL OR expires_at > NOW())
-      ORDER BY created_at DESC
-      LIMIT ${limit}
-      OFFSET ${offset}
-    `;
-  } else if (options?.channelId) {
-    result = await sql`
-      SELECT * FROM subscriptions 
-      WHERE app_id = ${appId} 
-        AND channel_id = ${options.channelId}
-        AND (expires_at IS NULL OR expires_at > NOW())
-      ORDER BY created_at DESC
-      LIMIT ${limit}
-      OFFSET ${offset}
-    `;
-  } else {
-    result = await sql`
-      SELECT * FROM subscriptions 
-      WHERE app_id = ${appId}
-        AND (expires_at IS NULL OR expires_at > NOW())
-      ORDER BY created_at DESC
-      LIMIT ${limit}
-      OFFSET ${offset}
-    `;
-  }
+  const result = await sql`
+    SELECT s.*, s.created_at::text AS cursor_created_at
+    FROM subscriptions s
+    WHERE ${subscriptionTargetFilter(appId, options.target ?? {}, options.after)}
+    ${options.filter ? subscriptionListFilter(options.filter) : sql``}
+    ORDER BY s.created_at, s.id
+    LIMIT ${options.limit + 1}
+  `;
 
-  return result.map(mapRowToSubscription);
+  const rows = result.slice(0, options.limit);
+  const last = rows[rows.length - 1];
+  return {
+    subscriptions: rows.map(mapRowToSubscription),
+    nextCursor: result.length > options.limit
+      ? { createdAt: last.cursor_created_at as string, id: last.id as string }
+      : null,
+  };
 }
 
 export async function getSubscriptionsByIds(ids: string[]): Promise<Subscription[]> {
@@ -395,10 +1291,13 @@ export async function getSubscriptionsByIds(ids: string[]): Promise<Subscription
   return result.map(mapRowToSubscription);
 }
 
-export async function deleteSubscription(id: string): Promise<boolean> {
+// With an appId, only that app's subscription is deleted
+export async function deleteSubscription(id: string, appId?: string): Promise<boolean> {
+  if (!isUuid(id)) return false;
   await ensureDatabase();
   const result = await sql`
-    DELETE FROM subscriptions WHERE id = ${id}
+    DELETE FROM subscriptions
+    WHERE id = ${id} ${appId ? sql`AND app_id = ${appId}` : sql``}
     RETURNING id
   `;
   
@@ -409,10 +1308,16 @@ export async function deleteSubscription(id: string): Promise<boolean> {
   return false;
 }
 
-export async function deleteSubscriptionByEndpoint(appId: string, endpoint: string): Promise<boolean> {
+// With `auth`, only if it matches the subscription's auth secret
+export async function deleteSubscriptionByEndpoint(
+  appId: string,
+  endpoint: string,
+  auth?: string
+): Promise<boolean> {
   await ensureDatabase();
   const result = await sql`
-    DELETE FROM subscriptions WHERE app_id = ${appId} AND endpoint = ${endpoint}
+    DELETE FROM subscriptions
+    WHERE app_id = ${appId} AND endpoint = ${endpoint} ${auth ? sql`AND auth = ${auth}` : sql``}
     RETURNING id
   `;
   
@@ -432,41 +1337,876 @@ export async function countSubscriptionsByApp(appId: string): Promise<number> {
   return parseInt(result[0].count as string, 10);
 }
 
+// ============================================================================
+// Notification Queue
+// ============================================================================
+
+// Thrown inside createNotificationJob's transaction to roll it back
+class AudienceTooLargeError extends Error {}
+
+// Number of subscriptions a send with these targeting options reaches now
+export async function countTargetedSubscriptions(
+  appId: string,
+  target: NotificationTarget
+): Promise<number> {
+  await ensureDatabase();
+  const result = await sql`
+    SELECT COUNT(*)::int AS count FROM subscriptions s
+    WHERE ${subscriptionTargetFilter(appId, target)}
+  `;
+
+  return result[0].count as number;
+}
+
+// Subscriptions turned into deliveries per statement while queueing
+const QUEUE_BATCH_SIZE = 1000;
+
+// Create a delivery for every subscription matched by the job's targeting
+// options and mark the job queued, or completed if nothing matched. The
+// audience is walked in keyset order a batch at a time, so a send that
+// exceeds maxRecipients stops early. Returns the updated job row.
+async function queueDeliveries(
+  tx: postgres.TransactionSql,
+  jobId: string,
+  appId: string,
+  target: NotificationTarget,
+  maxRecipients?: number
+): Promise<Record<string, unknown>> {
+  let total = 0;
+  let after: SubscriptionCursor | null = null;
+
+  do {
+    // Zero rows when the batch is empty; otherwise its last subscription
+    // and its size
+    const rows: Record<string, unknown>[] = await tx`
+      WITH batch AS (
+        SELECT s.id, s.user_id, s.created_at
+        FROM subscriptions s
+        WHERE ${subscriptionTargetFilter(appId, target, after)}
+        ORDER BY s.created_at, s.id
+        LIMIT ${QUEUE_BATCH_SIZE}
+      ),
+      inserted AS (
+        INSERT INTO deliveries (id, job_id, subscription_id, user_id)
+        SELECT gen_random_uuid(), ${jobId}, id, user_id FROM batch
+      )
+      SELECT id, created_at::text AS cursor_created_at, COUNT(*) OVER ()::int AS count
+      FROM batch
+      ORDER BY batch.created_at DESC, id DESC
+      LIMIT 1
+    `;
+
+    const last = rows[0];
+    const count = last ? (last.count as number) : 0;
+    total += count;
+    after = count === QUEUE_BATCH_SIZE
+      ? { createdAt: last.cursor_created_at as string, id: last.id as string }
+      : null;
+
+    if (maxRecipients !== undefined && total > maxRecipients) {
+      throw new AudienceTooLargeError();
+    }
+  } while (after);
+
+  const jobs = total === 0
+    ? await tx`
+        UPDATE notification_jobs SET status = 'completed', total = 0, completed_at = NOW()
+        WHERE id = ${jobId}
+        RETURNING *
+      `
+    : await tx`
+        UPDATE notification_jobs SET status = 'queued', total = ${total}
+        WHERE id = ${jobId}
+        RETURNING *
+      `;
+  return jobs[0];
+}
+
+// Queue a notification for every subscription matched by the targeting
+// options. Returns null, without queueing anything, if more than
+// maxRecipients match. With a sendAt the notification is only stored;
+// dispatchDueNotifications queues it at that time.
+export async function createNotificationJob(
+  appId: string,
+  notification: {
+    payload: Record<string, unknown>;
+    payloadHash: string;
+    localized?: { variants: Record<string, Record<string, unknown>>; fallbackLocale: string };
+    target: NotificationTarget;
+    apiKeyId?: string;
+    sendAt?: Date;
+    push: PushOptions;
+  },
+  maxRecipients?: number
+): Promise<NotificationJob | null> {
+  const { payload, payloadHash, localized, target, apiKeyId, sendAt, push } = notification;
+  await ensureDatabase();
+  const id = uuidv4();
+
+  try {
+    const row = await sql.begin(async (tx) => {
+      const jobs = await tx`
+        INSERT INTO notification_jobs (
+          id, app_id, payload, payload_hash, localized, fallback_locale,
+          target, api_key_id, status, send_at, ttl, urgency, topic
+        )
+        VALUES (
+          ${id}, ${appId}, ${sql.json(payload as JSONValue)}, ${payloadHash},
+          ${localized ? sql.json(localized.variants as JSONValue) : null}, ${localized?.fallbackLocale ?? null},
+          ${sql.json(target as JSONValue)}, ${apiKeyId ?? null},
+          ${sendAt ? 'scheduled' : 'queued'}, ${sendAt ?? null},
+          ${push.ttl}, ${push.urgency}, ${push.topic ?? null}
+        )
+        RETURNING *
+      `;
+
+      if (sendAt) return jobs[0];
+      return queueDeliveries(tx, id, appId, target, maxRecipients);
+    });
+
+    if (sendAt) {
+      logger.info('Scheduled notification', { notificationId: id, appId, sendAt: sendAt.toISOString() });
+    } else {
+      logger.info('Queued notification', { notificationId: id, appId, total: row.total });
+    }
+    return mapRowToNotificationJob(row);
+  } catch (error) {
+    if (error instanceof AudienceTooLargeError) return null;
+    throw error;
+  }
+}
+
+// Queue up to `limit` scheduled notifications whose sendAt has passed.
+// Each is claimed with SKIP LOCKED in its own transaction, so concurrent
+// dispatchers never queue one twice. `admit` is asked with the audience
+// size first; a job it turns down is marked rejected instead of queued.
+// `refund` gives back what `admit` counted but was not queued.
+export async function dispatchDueNotifications(
+  limit: number,
+  admit: (job: NotificationJob, audience: number) => Promise<boolean>,
+  refund: (job: NotificationJob, recipients: number) => Promise<void>
+): Promise<NotificationJob[]> {
+  await ensureDatabase();
+  const dispatched: NotificationJob[] = [];
+
+  while (dispatched.length < limit) {
+    let admitted: { job: NotificationJob; audience: number } | undefined;
+    let row: Record<string, unknown> | null;
+    try {
+      row = await sql.begin(async (tx) => {
+        const due = await tx`
+          SELECT * FROM notification_jobs
+          WHERE status = 'scheduled' AND send_at <= NOW()
+          ORDER BY send_at
+          LIMIT 1
+          FOR UPDATE SKIP LOCKED
+        `;
+        if (due.length === 0) return null;
+
+        const job = mapRowToNotificationJob(due[0]);
+        const [{ count }] = await tx`
+          SELECT COUNT(*)::int AS count FROM subscriptions s
+          WHERE ${subscriptionTargetFilter(job.appId, job.target)}
+        `;
+        if (!(await admit(job, count as number))) {
+          const rejected = await tx`
+            UPDATE notification_jobs SET status = 'rejected', completed_at = NOW()
+            WHERE id = ${job.id}
+            RETURNING *
+          `;
+          return rejected[0];
+        }
+        admitted = { job, audience: count as number };
+
+        return queueDeliveries(tx, job.id, job.appId, job.target);
+      });
+    } catch (error) {
+      // Rolled back, so nothing was queued
+      if (admitted) await refund(admitted.job, admitted.audience);
+      throw error;
+    }
+
+    if (!row) break;
+    const job = mapRowToNotificationJob(row);
+    if (job.status === 'rejected') {
+      logger.warn('Rejected scheduled notification over quota', { notificationId: job.id, appId: job.appId });
+    } else {
+      logger.info('Dispatched scheduled notification', { notificationId: job.id, appId: job.appId, total: job.total });
+    }
+    // Subscriptions may have come or gone since the audience was counted
+    if (admitted && admitted.audience > job.total) {
+      await refund(job, admitted.audience - job.total);
+    }
+    dispatched.push(job);
+  }
+
+  return dispatched;
+}
+
+export async function getScheduledNotificationJobs(
+  appId: string,
+  options: { limit: number; offset: number }
+): Promise<NotificationJob[]> {
+  await ensureDatabase();
+  const result = await sql`
+    SELECT * FROM notification_jobs
+    WHERE app_id = ${appId} AND status = 'scheduled'
+    ORDER BY send_at, id
+    LIMIT ${options.limit}
+    OFFSET ${options.offset}
+  `;
+
+  return result.map(mapRowToNotificationJob);
+}
+
+export type ScheduledNotificationUpdate =
+  | { updated: true; job: NotificationJob }
+  | { updated: false; reason: 'not_found' | 'not_scheduled'; status?: NotificationJobStatus };
+
+// Move (with a sendAt) or cancel a notification that is still waiting to be
+// dispatched
+export async function updateScheduledNotificationJob(
+  appId: string,
+  id: string,
+  change: { sendAt: Date } | { cancel: true }
+): Promise<ScheduledNotificationUpdate> {
+  if (!isUuid(id)) return { updated: false, reason: 'not_found' };
+  await ensureDatabase();
+
+  const result = 'sendAt' in change
+    ? await sql`
+        UPDATE notification_jobs SET send_at = ${change.sendAt}
+        WHERE id = ${id} AND app_id = ${appId} AND status = 'scheduled'
+        RETURNING *
+      `
+    : await sql`
+        UPDATE notification_jobs SET status = 'canceled', completed_at = NOW()
+        WHERE id = ${id} AND app_id = ${appId} AND status = 'scheduled'
+        RETURNING *
+      `;
+
+  if (result.length > 0) {
+    return { updated: true, job: mapRowToNotificationJob(result[0]) };
+  }
+
+  // Notifications sent without a sendAt were never scheduled
+  const existing = await getNotificationJobById(appId, id);
+  return existing?.sendAt
+    ? { updated: false, reason: 'not_scheduled', status: existing.status }
+    : { updated: false, reason: 'not_found' };
+}
+
+export async function getNotificationJobsByIds(ids: string[]): Promise<NotificationJob[]> {
+  if (ids.length === 0) return [];
+  await ensureDatabase();
+
+  const result = await sql`
+    SELECT * FROM notification_jobs WHERE id = ANY(${ids})
+  `;
+
+  return result.map(mapRowToNotificationJob);
+}
+
+export async function getNotificationJobById(
+  appId: string,
+  id: string
+): Promise<NotificationJob | null> {
+  if (!isUuid(id)) return null;
+  await ensureDatabase();
+
+  const result = await sql`
+    SELECT * FROM notification_jobs WHERE id = ${id} AND app_id = ${appId}
+  `;
+
+  return result.length > 0 ? mapRowToNotificationJob(result[0]) : null;
+}
+
+// Keyset position in an app's notifications ordered by (created_at, id),
+// in the same text form as SubscriptionCursor
+export type NotificationCursor = SubscriptionCursor;
+
+// Notifications created after `since`, or after `after` when resuming a
+// listing, oldest first. With a userId, only those that were queued for at
+// least one of that user's subscriptions.
+export async function getNotificationJobsSince(
+  appId: string,
+  since: Date,
+  options: { userId?: string; after?: NotificationCursor; limit: number }
+): Promise<{ jobs: NotificationJob[]; nextCursor: NotificationCursor | null }> {
+  await ensureDatabase();
+  const result = await sql`
+    SELECT j.*, j.created_at::text AS cursor_created_at
+    FROM notification_jobs j
+    WHERE j.app_id = ${appId}
+      ${options.after
+        // Through text: a timestamptz parameter is serialized via a JS Date
+        ? sql`AND (j.created_at, j.id) > (${options.after.createdAt}::text::timestamptz, ${options.after.id}::uuid)`
+        : sql`AND j.created_at > ${since}`}
+      ${options.userId
+        ? sql`AND EXISTS (
+            SELECT 1 FROM deliveries d WHERE d.job_id = j.id AND d.user_id = ${options.userId}
+          )`
+        : sql``}
+    ORDER BY j.created_at, j.id
+    LIMIT ${options.limit + 1}
+  `;
+
+  const rows = result.slice(0, options.limit);
+  const last = rows[rows.length - 1];
+  return {
+    jobs: rows.map(mapRowToNotificationJob),
+    nextCursor: result.length > options.limit
+      ? { createdAt: last.cursor_created_at as string, id: last.id as string }
+      : null,
+  };
+}
+
+export async function getDeliveriesByJob(
+  jobId: string,
+  options: {
+    userId?: string;
+    subscriptionId?: string;
+    status?: DeliveryStatus;
+    limit?: number;
+    offset?: number;
+  } = {}
+): Promise<Delivery[]> {
+  await ensureDatabase();
+  const result = await sql`
+    SELECT * FROM deliveries
+    WHERE job_id = ${jobId}
+      ${options.userId ? sql`AND user_id = ${options.userId}` : sql``}
+      ${options.subscriptionId ? sql`AND subscription_id = ${options.subscriptionId}` : sql``}
+      ${options.status ? sql`AND status = ${options.status}` : sql``}
+    ORDER BY created_at, id
+    ${options.limit !== undefined ? sql`LIMIT ${options.limit}` : sql``}
+    ${options.offset ? sql`OFFSET ${options.offset}` : sql``}
+  `;
+
+  return result.map(mapRowToDelivery);
+}
+
+// Recipients of a localized send by the variant they were pushed, with
+// their status. Deliveries not attempted yet have no locale and are left out.
+export async function getDeliveryCountsByLocale(
+  jobId: string
+): Promise<Record<string, { sent: number; failed: number; pending: number }>> {
+  await ensureDatabase();
+  const result = await sql`
+    SELECT locale,
+      COUNT(*) FILTER (WHERE status = 'sent')::int AS sent,
+      COUNT(*) FILTER (WHERE status = 'failed')::int AS failed,
+      COUNT(*) FILTER (WHERE status = 'pending')::int AS pending
+    FROM deliveries
+    WHERE job_id = ${jobId} AND locale IS NOT NULL
+    GROUP BY locale
+    ORDER BY locale
+  `;
+
+  return Object.fromEntries(
+    result.map((row) => [
+      row.locale as string,
+      { sent: row.sent as number, failed: row.failed as number, pending: row.pending as number },
+    ])
+  );
+}
+
+export async function getDeliveryAttempts(deliveryIds: string[]): Promise<DeliveryAttempt[]> {
+  if (deliveryIds.length === 0) return [];
+  await ensureDatabase();
+
+  const result = await sql`
+    SELECT * FROM delivery_attempts
+    WHERE delivery_id = ANY(${deliveryIds})
+    ORDER BY delivery_id, attempt
+  `;
+
+  return result.map(mapRowToDeliveryAttempt);
+}
+
+// Lease up to `limit` pending deliveries, optionally of one job. Rows locked
+// by another worker are skipped; leased rows become claimable again once
+// the lease runs out without the delivery being completed. A delivery whose
+// lease ran out after its app's last allowed attempt (the worker died or
+// gave up mid-send) is failed instead of claimed again.
+export async function claimDeliveries(
+  limit: number,
+  leaseSeconds: number,
+  jobId?: string
+): Promise<Delivery[]> {
+  await ensureDatabase();
+  const maxAttempts = sql`COALESCE((a.metadata->>'maxDeliveryAttempts')::int, ${DEFAULT_MAX_DELIVERY_ATTEMPTS})`;
+
+  const exhausted = await sql`
+    SELECT d.id, d.attempts FROM deliveries d
+    JOIN notification_jobs j ON j.id = d.job_id
+    LEFT JOIN apps a ON a.id = j.app_id
+    WHERE d.status = 'pending'
+      AND (d.locked_until IS NULL OR d.locked_until < NOW())
+      AND d.attempts >= ${maxAttempts}
+      ${jobId ? sql`AND d.job_id = ${jobId}` : sql``}
+    LIMIT ${limit}
+  `;
+  if (exhausted.length > 0) {
+    await completeDeliveries(exhausted.map((row): DeliveryOutcome => ({
+      deliveryId: row.id as string,
+      success: false,
+      error: `Gave up after ${row.attempts} attempts`,
+      classification: 'permanent',
+    })));
+    logger.warn('Failed deliveries that ran out of attempts', { count: exhausted.length });
+  }
+
+  const result = await sql`
+    UPDATE deliveries d
+    SET locked_until = NOW() + make_interval(secs => ${leaseSeconds}),
+        attempts = d.attempts + 1,
+        updated_at = NOW()
+    WHERE d.id IN (
+      SELECT p.id FROM deliveries p
+      JOIN notification_jobs j ON j.id = p.job_id
+      LEFT JOIN apps a ON a.id = j.app_id
+      WHERE p.status = 'pending'
+        AND (p.locked_until IS NULL OR p.locked_until < NOW())
+        AND p.attempts < ${maxAttempts}
+        ${jobId ? sql`AND p.job_id = ${jobId}` : sql``}
+      ORDER BY p.created_at
+      LIMIT ${limit}
+      FOR UPDATE OF p SKIP LOCKED
+    )
+    RETURNING d.*
+  `;
+
+  return result.map(mapRowToDelivery);
+}
+
+export interface DeliveryOutcome {
+  deliveryId: string;
+  success: boolean;
+  statusCode?: number;
+  error?: string;
+  classification?: PushFailureClass;
+  locale?: string; // variant pushed, for localized sends
+  // Keep the delivery pending and make it claimable again after this delay
+  retryDelayMs?: number;
+}
+
+// Record push results, log each as an attempt and refresh the counters of
+// the affected jobs
+export async function completeDeliveries(outcomes: DeliveryOutcome[]): Promise<void> {
+  if (outcomes.length === 0) return;
+  await ensureDatabase();
+
+  const rows = outcomes.map((outcome) => ({
+    id: outcome.deliveryId,
+    status: outcome.success ? 'sent' : outcome.retryDelayMs !== undefined ? 'pending' : 'failed',
+    status_code: outcome.statusCode ?? null,
+    error: outcome.error ?? null,
+    classification: outcome.classification ?? null,
+    locale: outcome.locale ?? null,
+    retry_delay_ms: outcome.retryDelayMs ?? null,
+  }));
+
+  const updated = await sql`
+    WITH v AS (
+      SELECT * FROM jsonb_to_recordset(${sql.json(rows)})
+        AS v(id UUID, status TEXT, status_code INTEGER, error TEXT, classification TEXT, locale TEXT, retry_delay_ms INTEGER)
+    ),
+    updated AS (
+      UPDATE deliveries d
+      SET status = v.status,
+          status_code = v.status_code,
+          error = v.error,
+          classification = v.classification,
+          locale = COALESCE(v.locale, d.locale),
+          locked_until = CASE
+            WHEN v.retry_delay_ms IS NULL THEN NULL
+            ELSE NOW() + make_interval(secs => v.retry_delay_ms / 1000.0)
+          END,
+          updated_at = NOW()
+      FROM v
+      WHERE d.id = v.id AND d.status = 'pending'
+      RETURNING d.id, d.job_id, d.attempts
+    ),
+    logged AS (
+      INSERT INTO delivery_attempts (id, delivery_id, attempt, success, status_code, error, classification)
+      SELECT gen_random_uuid(), u.id, u.attempts, v.status = 'sent', v.status_code, v.error, v.classification
+      FROM updated u JOIN v ON v.id = u.id
+    )
+    SELECT job_id FROM updated
+  `;
+
+  const jobIds = Array.from(new Set(updated.map((row) => row.job_id as string)));
+  if (jobIds.length === 0) return;
+
+  await sql`
+    UPDATE notification_jobs j
+    SET sent = c.sent,
+        failed = c.failed,
+        status = CASE WHEN c.pending = 0 THEN 'completed' ELSE 'processing' END,
+        completed_at = CASE WHEN c.pending = 0 THEN NOW() ELSE NULL END
+    FROM (
+      SELECT job_id,
+        COUNT(*) FILTER (WHERE status = 'sent') AS sent,
+        COUNT(*) FILTER (WHERE status = 'failed') AS failed,
+        COUNT(*) FILTER (WHERE status = 'pending') AS pending
+      FROM deliveries
+      WHERE job_id = ANY(${jobIds})
+      GROUP BY job_id
+    ) c
+    WHERE j.id = c.job_id
+  `;
+}
+
+// ============================================================================
+// Notification Templates
+// ============================================================================
+
+type TemplateFields = Omit<NotificationTemplate, 'id' | 'appId' | 'createdAt' | 'updatedAt'>;
+
+export async function createTemplate(
+  appId: string,
+  fields: TemplateFields
+): Promise<NotificationTemplate> {
+  await ensureDatabase();
+  const result = await sql`
+    INSERT INTO notification_templates (id, app_id, name, title, body, url, icon, actions, defaults)
+    VALUES (
+      ${uuidv4()}, ${appId}, ${fields.name}, ${fields.title}, ${fields.body ?? null},
+      ${fields.url ?? null}, ${fields.icon ?? null},
+      ${fields.actions ? sql.json(fields.actions as JSONValue) : null},
+      ${fields.defaults ? sql.json(fields.defaults as JSONValue) : null}
+    )
+    RETURNING *
+  `;
+
+  logger.info('Created notification template', { appId, templateId: result[0].id });
+  return mapRowToTemplate(result[0]);
+}
+
+export async function getTemplatesByApp(appId: string): Promise<NotificationTemplate[]> {
+  await ensureDatabase();
+  const result = await sql`
+    SELECT * FROM notification_templates WHERE app_id = ${appId} ORDER BY created_at
+  `;
+
+  return result.map(mapRowToTemplate);
+}
+
+export async function countTemplatesByApp(appId: string): Promise<number> {
+  await ensureDatabase();
+  const result = await sql`
+    SELECT COUNT(*) as count FROM notification_templates WHERE app_id = ${appId}
+  `;
+
+  return parseInt(result[0].count as string, 10);
+}
+
+export async function getTemplateById(
+  appId: string,
+  templateId: string
+): Promise<NotificationTemplate | null> {
+  if (!isUuid(templateId)) return null;
+  await ensureDatabase();
+  const result = await sql`
+    SELECT * FROM notification_templates WHERE id = ${templateId} AND app_id = ${appId}
+  `;
+
+  return result.length > 0 ? mapRowToTemplate(result[0]) : null;
+}
+
+// Fields left undefined are kept; null clears an optional field
+export async function updateTemplate(
+  appId: string,
+  templateId: string,
+  updates: { [K in keyof TemplateFields]?: TemplateFields[K] | null }
+): Promise<NotificationTemplate | null> {
+  if (!isUuid(templateId)) return null;
+  await ensureDatabase();
+
+  const json = (value: unknown) => (value ? sql.json(value as JSONValue) : null);
+  const result = await sql`
+    UPDATE notification_templates
+    SET
+      name = COALESCE(${updates.name ?? null}, name),
+      title = COALESCE(${updates.title ?? null}, title),
+      body = ${updates.body === undefined ? sql`body` : updates.body},
+      url = ${updates.url === undefined ? sql`url` : updates.url},
+      icon = ${updates.icon === undefined ? sql`icon` : updates.icon},
+      actions = ${updates.actions === undefined ? sql`actions` : json(updates.actions)},
+      defaults = ${updates.defaults === undefined ? sql`defaults` : json(updates.defaults)},
+      updated_at = NOW()
+    WHERE id = ${templateId} AND app_id = ${appId}
+    RETURNING *
+  `;
+
+  if (result.length === 0) return null;
+  logger.info('Updated notification template', { appId, templateId });
+  return mapRowToTemplate(result[0]);
+}
+
+export async function deleteTemplate(appId: string, templateId: string): Promise<boolean> {
+  if (!isUuid(templateId)) return false;
+  await ensureDatabase();
+  const result = await sql`
+    DELETE FROM notification_templates WHERE id = ${templateId} AND app_id = ${appId}
+    RETURNING id
+  `;
+
+  if (result.length > 0) {
+    logger.info('Deleted notification template', { appId, templateId });
+    return true;
+  }
+  return false;
+}
+
+// ============================================================================
+// Idempotency Keys
+// ============================================================================
+
+// Reserve `key` for a request. Fails with the existing record if the key is
+// already in use: expired keys are taken over, as are reservations whose
+// request never stored a response within `staleSeconds` (it crashed).
+export async function reserveIdempotencyKey(
+  appId: string,
+  key: string,
+  requestHash: string,
+  ttlSeconds: number,
+  staleSeconds: number
+): Promise<{ reserved: true } | { reserved: false; record: IdempotencyRecord }> {
+  await ensureDatabase();
+  const reserved = await sql`
+    INSERT INTO idempotency_keys (app_id, key, request_hash, expires_at)
+    VALUES (${appId}, ${key}, ${requestHash}, NOW() + make_interval(secs => ${ttlSeconds}))
+    ON CONFLICT (app_id, key) DO UPDATE
+    SET request_hash = EXCLUDED.request_hash,
+        status_code = NULL,
+        response = NULL,
+        created_at = NOW(),
+        expires_at = EXCLUDED.expires_at
+    WHERE idempotency_keys.expires_at < NOW()
+      OR (
+        idempotency_keys.response IS NULL
+        AND idempotency_keys.created_at < NOW() - make_interval(secs => ${staleSeconds})
+      )
+    RETURNING app_id
+  `;
+  if (reserved.length > 0) return { reserved: true };
+
+  const existing = await sql`
+    SELECT * FROM idempotency_keys WHERE app_id = ${appId} AND key = ${key}
+  `;
+  if (existing.length === 0) {
+    // Deleted between the two statements; try again
+    return reserveIdempotencyKey(appId, key, requestHash, ttlSeconds, staleSeconds);
+  }
+
+  return { reserved: false, record: mapRowToIdempotencyRecord(existing[0]) };
+}
+
+export async function saveIdempotentResponse(
+  appId: string,
+  key: string,
+  statusCode: number,
+  response: unknown
+): Promise<void> {
+  await ensureDatabase();
+  await sql`
+    UPDATE idempotency_keys
+    SET status_code = ${statusCode}, response = ${sql.json(response as JSONValue)}
+    WHERE app_id = ${appId} AND key = ${key}
+  `;
+}
+
+// Free a reservation whose request failed, so the client can retry it
+export async function releaseIdempotencyKey(appId: string, key: string): Promise<void> {
+  await ensureDatabase();
+  await sql`
+    DELETE FROM idempotency_keys
+    WHERE app_id = ${appId} AND key = ${key} AND response IS NULL
+  `;
+}
+
+export async function cleanupExpiredIdempotencyKeys(): Promise<number> {
+  await ensureDatabase();
+  const result = await sql`
+    DELETE FROM idempotency_keys WHERE expires_at < NOW()
+  `;
+  return result.count;
+}
+
 // ============================================================================
 // Rate Limiting
 // ============================================================================
 
+// Postgres implementation of the sliding window in lib/rate-limit.ts: the
+// current window's count plus the share of the previous window's count
+// that still falls within the last `windowMs`
 export async function checkAndIncrementRateLimit(
   appId: string,
-  action: 'notification' | 'subscription' | 'broadcast',
+  action: RateLimitLog['action'],
   limit: number,
+  windowMs: number = 60000,
+  cost: number = 1
+): Promise<{ allowed: boolean; current: number; limit: number; resetAt: Date }> {
+  await ensureDatabase();
+  const now = Date.now();
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const overlap = 1 - (now - windowStart) / windowMs;
+  const currentWindow = new Date(windowStart).toISOString();
+  const previousWindow = new Date(windowStart - windowMs).toISOString();
+
+  // Counted only if the whole cost fits, so a rejected request uses up
+  // nothing. `existing` is read from before the insert.
+  const [row] = await sql`
+    WITH previous AS (
+      SELECT COALESCE(FLOOR(SUM(count) * ${overlap}::float8), 0)::int AS carried
+      FROM rate_limit_logs
+      WHERE app_id = ${appId} AND action = ${action} AND window_start = ${previousWindow}
+    ),
+    counted AS (
+      INSERT INTO rate_limit_logs (id, app_id, action, count, window_start)
+      SELECT ${uuidv4()}, ${appId}, ${action}, ${cost}, ${currentWindow}
+      FROM previous
+      WHERE previous.carried + ${cost} <= ${limit}
+      ON CONFLICT (app_id, action, window_start)
+      DO UPDATE SET count = rate_limit_logs.count + EXCLUDED.count
+      WHERE rate_limit_logs.count + EXCLUDED.count + (SELECT carried FROM previous) <= ${limit}
+      RETURNING count
+    )
+    SELECT
+      (SELECT carried FROM previous) AS carried,
+      (SELECT count FROM counted) AS counted,
+      (
+        SELECT count FROM rate_limit_logs
+        WHERE app_id = ${appId} AND action = ${action} AND window_start = ${currentWindow}
+      ) AS existing
+  `;
+
+  const allowed = row.counted !== null;
+  const windowCount = (allowed ? row.counted : row.existing) as number | null;
+  const current = (row.carried as number) + (windowCount ?? 0);
+  return { allowed, current, limit, resetAt: new Date(windowStart + windowMs) };
+}
+
+// Give back what checkAndIncrementRateLimit counted in the current window,
+// for a request that was not carried out after all
+export async function refundRateLimit(
+  appId: string,
+  action: RateLimitLog['action'],
+  cost: number,
   windowMs: number = 60000
-): Promise<{ allowed: boolean; current: number; limit: number }> {
+): Promise<void> {
   await ensureDatabase();
   const windowStart = new Date(Math.floor(Date.now() / windowMs) * windowMs);
-  
-  // Upsert and get current count
+
+  await sql`
+    UPDATE rate_limit_logs SET count = GREATEST(count - ${cost}, 0)
+    WHERE app_id = ${appId} AND action = ${action} AND window_start = ${windowStart.toISOString()}
+  `;
+}
+
+export async function cleanupOldRateLimitLogs(): Promise<void> {
+  await ensureDatabase();
+  await sql`
+    DELETE FROM rate_limit_logs WHERE window_start < NOW() - INTERVAL '2 days'
+  `;
+}
+
+// ============================================================================
+// Auth Nonces & Sessions
+// ============================================================================
+
+export async function createAuthNonce(ttlSeconds: number): Promise<{ nonce: string; expiresAt: Date }> {
+  await ensureDatabase();
+  const nonce = crypto.randomBytes(16).toString('hex');
+  const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+
+  await sql`
+    INSERT INTO auth_nonces (nonce, expires_at)
+    VALUES (${nonce}, ${expiresAt.toISOString()})
+  `;
+
+  return { nonce, expiresAt };
+}
+
+// Atomically consume a nonce; returns false if it is unknown, used or expired
+export async function consumeAuthNonce(nonce: string): Promise<boolean> {
+  await ensureDatabase();
   const result = await sql`
-    INSERT INTO rate_limit_logs (id, app_id, action, count, window_start)
-    VALUES (${uuidv4()}, ${appId}, ${action}, 1, ${windowStart.toISOString()})
-    ON CONFLICT (app_id, action, window_start)
-    DO UPDATE SET count = rate_limit_logs.count + 1
-    RETURNING count
+    DELETE FROM auth_nonces
+    WHERE nonce = ${nonce} AND expires_at > NOW()
+    RETURNING nonce
   `;
 
-  const current = result[0].count as number;
-  const allowed = current <= limit;
+  return result.length > 0;
+}
+
+export async function createAuthSession(
+  walletAddress: string,
+  chainId: number,
+  ttlSeconds: number
+): Promise<AuthSession> {
+  await ensureDatabase();
+  const id = uuidv4();
+  const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
 
-  if (!allowed) {
-    logger.warn('Rate limit exceeded', { appId, action, current, limit });
+  const result = await sql`
+    INSERT INTO auth_sessions (id, wallet_address, chain_id, expires_at)
+    VALUES (${id}, ${walletAddress.toLowerCase()}, ${chainId}, ${expiresAt.toISOString()})
+    RETURNING *
+  `;
+
+  logger.info('Created auth session', { sessionId: id, walletAddress: walletAddress.toLowerCase() });
+  return mapRowToAuthSession(result[0]);
+}
+
+export async function getAuthSessionById(id: string): Promise<AuthSession | null> {
+  await ensureDatabase();
+  const result = await sql`
+    SELECT * FROM auth_sessions WHERE id = ${id}
+  `;
+
+  if (result.length === 0) return null;
+  return mapRowToAuthSession(result[0]);
+}
+
+export async function revokeAuthSession(id: string): Promise<boolean> {
+  await ensureDatabase();
+  const result = await sql`
+    UPDATE auth_sessions SET revoked_at = NOW()
+    WHERE id = ${id} AND revoked_at IS NULL
+    RETURNING id
+  `;
+
+  if (result.length > 0) {
+    logger.info('Revoked auth session', { sessionId: id });
+    return true;
   }
+  return false;
+}
 
-  return { allowed, current, limit };
+export async function revokeAuthSessionsByWallet(walletAddress: string): Promise<number> {
+  await ensureDatabase();
+  const result = await sql`
+    UPDATE auth_sessions SET revoked_at = NOW()
+    WHERE wallet_address = ${walletAddress.toLowerCase()} AND revoked_at IS NULL
+    RETURNING id
+  `;
+
+  logger.info('Revoked all auth sessions for wallet', {
+    walletAddress: walletAddress.toLowerCase(),
+    count: result.length,
+  });
+  return result.length;
 }
 
-export async function cleanupOldRateLimitLogs(): Promise<void> {
+export async function cleanupExpiredAuthRecords(): Promise<void> {
   await ensureDatabase();
   await sql`
-    DELETE FROM rate_limit_logs WHERE window_start < NOW() - INTERVAL '1 day'
+    DELETE FROM auth_nonces WHERE expires_at < NOW()
+  `;
+  await sql`
+    DELETE FROM auth_sessions WHERE expires_at < NOW() - INTERVAL '1 day'
   `;
 }
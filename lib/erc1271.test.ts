@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { hashMessage } from 'thirdweb/utils';
+import { verifyErc1271Signature } from './erc1271';
+
+const MAGIC_VALUE = '0x1626ba7e';
+const ACCOUNT = '0x' + 'ab'.repeat(20);
+const MESSAGE = 'vapid.party wants you to sign in';
+
+interface RpcRequest {
+  method: string;
+  params: [{ to: string; data: string }, string];
+}
+
+// Stands in for a node's JSON-RPC endpoint; `reply` decides the response
+// body of the next eth_call
+describe('verifyErc1271Signature', () => {
+  const requests: RpcRequest[] = [];
+  let reply: Record<string, unknown>;
+  let server: http.Server;
+  let signatureCounter = 0;
+
+  // Results are cached per signature, so every test signs afresh
+  function nextSignature(): string {
+    signatureCounter++;
+    return '0x' + signatureCounter.toString(16).padStart(130, '0');
+  }
+
+  before(async () => {
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => { body += chunk; });
+      request.on('end', () => {
+        const call = JSON.parse(body) as RpcRequest & { id: number };
+        requests.push(call);
+        response.setHeader('Content-Type', 'application/json');
+        response.end(JSON.stringify({ jsonrpc: '2.0', id: call.id, ...reply }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    process.env.ERC1271_RPC_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    delete process.env.ERC1271_RPC_URL;
+    server.close();
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  it('accepts a signature the account contract approves and caches it', async () => {
+    reply = { result: MAGIC_VALUE + '0'.repeat(56) };
+    const signature = nextSignature();
+
+    assert.equal(await verifyErc1271Signature({ address: ACCOUNT, message: MESSAGE, signature }), true);
+    assert.equal(await verifyErc1271Signature({ address: ACCOUNT, message: MESSAGE, signature }), true);
+
+    assert.equal(requests.length, 1);
+    const [{ to, data }, block] = requests[0].params;
+    assert.equal(requests[0].method, 'eth_call');
+    assert.equal(to, ACCOUNT);
+    assert.equal(block, 'latest');
+    assert.ok(data.startsWith(MAGIC_VALUE + hashMessage(MESSAGE).slice(2)));
+    assert.ok(data.includes(signature.slice(2)));
+  });
+
+  it('rejects any other result and caches the rejection', async () => {
+    reply = { result: '0x' };
+    const signature = nextSignature();
+
+    assert.equal(await verifyErc1271Signature({ address: ACCOUNT, message: MESSAGE, signature }), false);
+
+    reply = { result: MAGIC_VALUE + '0'.repeat(56) };
+    assert.equal(await verifyErc1271Signature({ address: ACCOUNT, message: MESSAGE, signature }), false);
+    assert.equal(requests.length, 1);
+  });
+
+  it('does not cache JSON-RPC errors', async () => {
+    reply = { error: { code: -32005, message: 'rate limit exceeded' } };
+    const signature = nextSignature();
+
+    assert.equal(await verifyErc1271Signature({ address: ACCOUNT, message: MESSAGE, signature }), false);
+
+    // The provider recovered; the retry asks again
+    reply = { result: MAGIC_VALUE + '0'.repeat(56) };
+    assert.equal(await verifyErc1271Signature({ address: ACCOUNT, message: MESSAGE, signature }), true);
+    assert.equal(requests.length, 2);
+  });
+
+  it('uses the per-chain RPC URL when one is set', async () => {
+    reply = { result: MAGIC_VALUE + '0'.repeat(56) };
+    process.env.ERC1271_RPC_URL_8453 = 'http://127.0.0.1:1';
+    try {
+      const signature = nextSignature();
+      assert.equal(
+        await verifyErc1271Signature({ address: ACCOUNT, message: MESSAGE, signature, chainId: 8453 }),
+        false
+      );
+      assert.equal(requests.length, 0);
+    } finally {
+      delete process.env.ERC1271_RPC_URL_8453;
+    }
+  });
+});
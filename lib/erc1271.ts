@@ -0,0 +1,145 @@
+/**
+ * ERC-1271 signature validation for smart-contract wallets
+ *
+ * Safe and thirdweb smart accounts sign with their owner keys, so the
+ * resulting signature does not ecrecover to the account address. Instead
+ * the account contract is asked whether the signature is valid via
+ * `isValidSignature(bytes32,bytes)` over JSON-RPC.
+ *
+ * RPC endpoint: `ERC1271_RPC_URL_<chainId>` if set, else `ERC1271_RPC_URL`.
+ */
+
+import { hashMessage } from 'thirdweb/utils';
+import logger from './logger';
+
+// bytes4(keccak256("isValidSignature(bytes32,bytes)"))
+const ERC1271_MAGIC_VALUE = '0x1626ba7e';
+
+const RPC_TIMEOUT_MS = 5000;
+const VALID_CACHE_TTL_MS = 5 * 60 * 1000;
+const INVALID_CACHE_TTL_MS = 30 * 1000;
+const MAX_CACHE_ENTRIES = 1000;
+
+const resultCache = new Map<string, { valid: boolean; expiresAt: number }>();
+
+function getRpcUrl(chainId?: number): string | undefined {
+  if (chainId !== undefined) {
+    const perChain = process.env[`ERC1271_RPC_URL_${chainId}`];
+    if (perChain) return perChain;
+  }
+  return process.env.ERC1271_RPC_URL || undefined;
+}
+
+function encodeIsValidSignatureCall(hash: string, signature: string): string {
+  const sigHex = signature.slice(2).toLowerCase();
+  const sigLength = sigHex.length / 2;
+  const paddedSig = sigHex.padEnd(Math.ceil(sigHex.length / 64) * 64, '0');
+
+  return (
+    ERC1271_MAGIC_VALUE +
+    hash.slice(2) +
+    (64).toString(16).padStart(64, '0') + // offset of the bytes argument
+    sigLength.toString(16).padStart(64, '0') +
+    paddedSig
+  );
+}
+
+function readCache(key: string): boolean | undefined {
+  const entry = resultCache.get(key);
+  if (!entry) return undefined;
+  if (entry.expiresAt < Date.now()) {
+    resultCache.delete(key);
+    return undefined;
+  }
+  return entry.valid;
+}
+
+function writeCache(key: string, valid: boolean): void {
+  if (resultCache.size >= MAX_CACHE_ENTRIES) {
+    // Maps iterate in insertion order, so this drops the oldest entry
+    const oldest = resultCache.keys().next().value;
+    if (oldest !== undefined) resultCache.delete(oldest);
+  }
+  resultCache.set(key, {
+    valid,
+    expiresAt: Date.now() + (valid ? VALID_CACHE_TTL_MS : INVALID_CACHE_TTL_MS),
+  });
+}
+
+/**
+ * Ask `address` whether `signature` is a valid signature of the EIP-191
+ * hash of `message`. Returns false when no RPC URL is configured.
+ */
+export async function verifyErc1271Signature(options: {
+  address: string;
+  message: string;
+  signature: string;
+  chainId?: number;
+}): Promise<boolean> {
+  const rpcUrl = getRpcUrl(options.chainId);
+  if (!rpcUrl) return false;
+  if (!/^0x([0-9a-fA-F]{2})*$/.test(options.signature)) return false;
+
+  const hash = hashMessage(options.message);
+  const cacheKey = `${options.chainId ?? ''}:${options.address.toLowerCase()}:${hash}:${options.signature.toLowerCase()}`;
+
+  const cached = readCache(cacheKey);
+  if (cached !== undefined) return cached;
+
+  let response: Response;
+  try {
+    response = await fetch(rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'eth_call',
+        params: [
+          { to: options.address, data: encodeIsValidSignatureCall(hash, options.signature) },
+          'latest',
+        ],
+      }),
+      signal: AbortSignal.timeout(RPC_TIMEOUT_MS),
+    });
+  } catch (error) {
+    // Network failures are not cached so the next attempt retries the RPC
+    logger.warn('ERC-1271 RPC request failed', {
+      address: options.address,
+      chainId: options.chainId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+
+  if (!response.ok) {
+    logger.warn('ERC-1271 RPC returned an error status', {
+      address: options.address,
+      chainId: options.chainId,
+      status: response.status,
+    });
+    return false;
+  }
+
+  const body = (await response.json().catch(() => null)) as
+    | { result?: string; error?: { message?: string } }
+    | null;
+
+  // JSON-RPC errors (reverts, but also provider rate limits and outages)
+  // are not cached, like network failures
+  if (typeof body?.result !== 'string') {
+    logger.warn('ERC-1271 RPC returned no result', {
+      address: options.address,
+      chainId: options.chainId,
+      error: body?.error?.message,
+    });
+    return false;
+  }
+
+  // Anything but the magic value (an address with no code returns `0x`)
+  // means "not valid"
+  const valid = body.result.toLowerCase().startsWith(ERC1271_MAGIC_VALUE);
+
+  writeCache(cacheKey, valid);
+  return valid;
+}
@@ -30,13 +30,15 @@ export function logApiRequest(
   method: string,
   path: string,
   ip: string | undefined,
-  appId?: string
+  appId?: string,
+  keyId?: string
 ) {
   logger.info('API Request', {
     method,
     path,
     ip: ip || 'unknown',
     appId,
+    keyId,
   });
 }
 
@@ -59,13 +61,17 @@ export function logNotificationSent(
   appId: string,
   subscriptionId: string,
   success: boolean,
-  statusCode?: number
+  statusCode?: number,
+  attempt?: number,
+  classification?: string
 ) {
   logger.info('Notification sent', {
     appId,
     subscriptionId,
     success,
     statusCode,
+    attempt,
+    classification,
   });
 }
 
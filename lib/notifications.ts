@@ -1,15 +1,45 @@
 import webPush, { PushSubscription } from 'web-push';
-import type { App, Subscription, SendNotificationRequest } from './types';
+import crypto from 'crypto';
+import type {
+  App,
+  Delivery,
+  DeliveryAttempt,
+  NotificationJob,
+  PushFailureClass,
+  PushOptions,
+  RateLimitLog,
+  Subscription,
+  RenderedSendRequest,
+} from './types';
+import { DEFAULT_MAX_DELIVERY_ATTEMPTS, DEFAULT_PUSH_TTL_SECONDS } from './types';
 import {
-  getSubscriptionsByApp,
+  getAppById,
   getSubscriptionsByIds,
   deleteSubscription,
-  checkAndIncrementRateLimit,
+  countTargetedSubscriptions,
+  getVapidKeysByVersions,
+  createNotificationJob,
+  dispatchDueNotifications,
+  getNotificationJobsByIds,
+  getDeliveriesByJob,
+  claimDeliveries,
+  completeDeliveries,
+  type DeliveryOutcome,
+  type NotificationCursor,
 } from './db';
-import logger, { logNotificationSent, logRateLimitExceeded } from './logger';
+import logger, { logError, logNotificationSent, logRateLimitExceeded } from './logger';
+import { getRateLimiter } from './rate-limit';
+import { decodeSubscriptionCursor, encodeSubscriptionCursor } from './subscriptions';
+import { decryptVapidPrivateKey } from './vapid-encryption';
+import { getVapidAuthorization, type VapidDetails } from './vapid-jwt';
 
 const VAPID_SUBJECT = process.env.VAPID_SUBJECT || 'mailto:admin@vapid.party';
 
+// Push services contact the app owner, not the relay, when one is configured
+function vapidSubjectFor(app: App): string {
+  return app.metadata.vapidSubject || VAPID_SUBJECT;
+}
+
 function normalizeBase64UrlMaybe(input: string): string {
   const compact = input.replace(/\s+/g, '');
   if (!compact) return input;
@@ -28,26 +58,127 @@ export interface SendResult {
   success: boolean;
   statusCode?: number;
   error?: string;
+  classification?: PushFailureClass;
+  retryAfterMs?: number; // from the push service's Retry-After header
+  attempts?: number;
+  nextAttemptAt?: Date; // set while a retry is scheduled
+}
+
+export interface LocaleCounts {
+  sent: number;
+  failed: number;
+  retrying: number;
 }
 
 export interface BatchSendResult {
+  notificationId: string;
   sent: number;
   failed: number;
+  retrying: number;
   total: number;
   results: SendResult[];
+  locales?: Record<string, LocaleCounts>; // by variant, for localized sends
+  quota: NotificationQuota;
+}
+
+// What is left of an app's notification quota, in whichever window
+// (minute or day) has fewer messages left
+export interface NotificationQuota {
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+// A send targeted more recipients than the quota has left. Nothing was
+// queued or counted.
+export class QuotaExceededError extends Error {
+  readonly audience: number;
+  readonly window: 'minute' | 'day';
+  readonly quota: NotificationQuota;
+
+  constructor(audience: number, window: 'minute' | 'day', quota: NotificationQuota) {
+    super('Notification quota exceeded');
+    this.name = 'QuotaExceededError';
+    this.audience = audience;
+    this.window = window;
+    this.quota = quota;
+  }
+}
+
+// Give up on a push service that has not answered within this time
+const PUSH_TIMEOUT_MS = 10_000;
+
+// Retry delays grow from the base to the cap: 30s, 1m, 2m, ... up to 1h
+const RETRY_BASE_DELAY_MS = 30_000;
+const RETRY_MAX_DELAY_MS = 60 * 60_000;
+
+function classifyPushFailure(statusCode: number | undefined): PushFailureClass {
+  // No status: timeout, connection reset, DNS failure
+  if (statusCode === undefined) return 'retryable';
+  if (statusCode === 404 || statusCode === 410) return 'gone';
+  if (statusCode === 429 || statusCode >= 500) return 'retryable';
+  // 400 (bad request), 403 (VAPID rejected), 413 (payload too large), ...
+  return 'permanent';
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | string[] | undefined): number | undefined {
+  const header = Array.isArray(value) ? value[0] : value;
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with jitter, so deliveries that failed together in
+// one outage do not all retry at the same moment. Never sooner than the
+// push service asked for with Retry-After.
+function retryDelayMs(attempt: number, retryAfterMs?: number): number {
+  const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+  const jittered = ceiling / 2 + Math.random() * (ceiling / 2);
+  return Math.round(Math.min(RETRY_MAX_DELAY_MS, Math.max(jittered, retryAfterMs ?? 0)));
+}
+
+// Load and decrypt the app's VAPID keys for the given versions. The
+// decrypted keys live only for the duration of a send.
+async function loadVapidCredentials(
+  app: App,
+  versions: number[]
+): Promise<Map<number, VapidDetails>> {
+  const subject = vapidSubjectFor(app);
+  const keys = await getVapidKeysByVersions(app.id, versions);
+  return new Map(
+    keys.map((key) => [
+      key.version,
+      {
+        subject,
+        publicKey: key.publicKey,
+        privateKey: decryptVapidPrivateKey(key.encryptedPrivateKey, app.id),
+      },
+    ])
+  );
 }
 
 async function sendToSubscription(
   app: App,
+  vapid: VapidDetails | undefined,
   subscription: Subscription,
-  payload: string
+  payload: string,
+  options: PushOptions,
+  attempt: number = 1
 ): Promise<SendResult> {
-  // Configure VAPID for this specific app
-  webPush.setVapidDetails(
-    VAPID_SUBJECT,
-    app.vapidPublicKey,
-    app.vapidPrivateKey
-  );
+  if (!vapid) {
+    logNotificationSent(app.id, subscription.id, false, undefined, attempt, 'permanent');
+    return {
+      subscriptionId: subscription.id,
+      success: false,
+      error: `VAPID key version ${subscription.vapidKeyVersion} no longer exists`,
+      classification: 'permanent',
+    };
+  }
 
   const pushSubscription: PushSubscription = {
     endpoint: subscription.endpoint,
@@ -58,12 +189,18 @@ async function sendToSubscription(
   };
 
   try {
+    // Signed with the key this subscription was created under
     const result = await webPush.sendNotification(pushSubscription, payload, {
-      TTL: 86400, // 24 hours
-      urgency: 'normal',
+      TTL: options.ttl,
+      urgency: options.urgency,
+      topic: options.topic,
+      timeout: PUSH_TIMEOUT_MS,
+      headers: {
+        Authorization: getVapidAuthorization(app.id, vapid, subscription.endpoint),
+      },
     });
 
-    logNotificationSent(app.id, subscription.id, true, result.statusCode);
+    logNotificationSent(app.id, subscription.id, true, result.statusCode, attempt);
 
     return {
       subscriptionId: subscription.id,
@@ -71,10 +208,15 @@ async function sendToSubscription(
       statusCode: result.statusCode,
     };
   } catch (error: unknown) {
-    const err = error as { statusCode?: number; message?: string };
+    const err = error as {
+      statusCode?: number;
+      message?: string;
+      headers?: Record<string, string | string[] | undefined>;
+    };
+    const classification = classifyPushFailure(err.statusCode);
 
     // Handle expired/invalid subscriptions (404 or 410)
-    if (err.statusCode === 404 || err.statusCode === 410) {
+    if (classification === 'gone') {
       logger.warn('Subscription expired, removing', {
         subscriptionId: subscription.id,
         appId: app.id,
@@ -83,92 +225,584 @@ async function sendToSubscription(
       await deleteSubscription(subscription.id);
     }
 
-    logNotificationSent(app.id, subscription.id, false, err.statusCode);
+    logNotificationSent(app.id, subscription.id, false, err.statusCode, attempt, classification);
 
     return {
       subscriptionId: subscription.id,
       success: false,
       statusCode: err.statusCode,
       error: err.message || 'Push failed',
+      classification,
+      retryAfterMs: err.statusCode === 429 ? parseRetryAfter(err.headers?.['retry-after']) : undefined,
     };
   }
 }
 
-export async function sendNotifications(
+// Sends larger than this must go through the queue
+export const MAX_SYNC_RECIPIENTS = 1000;
+
+// Deliveries claimed per worker round, and how long a worker may hold them
+const CLAIM_BATCH_SIZE = 200;
+const DELIVERY_LEASE_SECONDS = 120;
+const CONCURRENCY_LIMIT = 50;
+
+// JSON with object keys sorted, so equal payloads hash equally
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function hashPayload(payload: Record<string, unknown>): string {
+  return crypto.createHash('sha256').update(canonicalJson(payload)).digest('hex');
+}
+
+const QUOTA_WINDOWS: Array<{
+  window: 'minute' | 'day';
+  action: RateLimitLog['action'];
+  windowMs: number;
+  limit: (app: App) => number;
+}> = [
+  { window: 'minute', action: 'notification', windowMs: 60_000, limit: (app) => app.rateLimit.maxNotificationsPerMinute },
+  { window: 'day', action: 'notification:day', windowMs: 86_400_000, limit: (app) => app.rateLimit.maxNotificationsPerDay },
+];
+
+// Count `recipients` messages against both of the app's quota windows.
+// Either both count them or neither does; throws QuotaExceededError if
+// they do not fit. A cost of 0 only reads the quota.
+async function consumeNotificationQuota(app: App, recipients: number): Promise<NotificationQuota> {
+  const rateLimiter = getRateLimiter();
+  let tightest: NotificationQuota | undefined;
+
+  for (const [index, quotaWindow] of QUOTA_WINDOWS.entries()) {
+    const check = await rateLimiter.consume(
+      app.id,
+      quotaWindow.action,
+      quotaWindow.limit(app),
+      quotaWindow.windowMs,
+      recipients
+    );
+    const quota = {
+      limit: check.limit,
+      remaining: Math.max(check.limit - check.current, 0),
+      resetAt: check.resetAt,
+    };
+
+    if (!check.allowed) {
+      for (const counted of QUOTA_WINDOWS.slice(0, index)) {
+        await rateLimiter.refund(app.id, counted.action, recipients, counted.windowMs);
+      }
+      logRateLimitExceeded(app.id, `notifications per ${quotaWindow.window}`, check.current + recipients, check.limit);
+      throw new QuotaExceededError(recipients, quotaWindow.window, quota);
+    }
+
+    if (!tightest || quota.remaining < tightest.remaining) {
+      tightest = quota;
+    }
+  }
+
+  return tightest as NotificationQuota;
+}
+
+async function refundNotificationQuota(app: App, recipients: number): Promise<void> {
+  const rateLimiter = getRateLimiter();
+  for (const quotaWindow of QUOTA_WINDOWS) {
+    await rateLimiter.refund(app.id, quotaWindow.action, recipients, quotaWindow.windowMs);
+  }
+}
+
+// Queue a notification for the targeted subscriptions, or store it until
+// its sendAt. Every recipient counts against the app's quota; a scheduled
+// notification is counted when it is dispatched. Returns null when more
+// than maxRecipients are targeted; nothing is queued in that case.
+async function queueNotification(
   app: App,
-  request: SendNotificationRequest
-): Promise<BatchSendResult> {
-  const { payload, userId, channelId, subscriptionIds } = request;
-  const payloadString = JSON.stringify(payload);
-
-  // Get target subscriptions
-  let subscriptions: Subscription[];
-
-  if (subscriptionIds && subscriptionIds.length > 0) {
-    // Target specific subscriptions
-    subscriptions = await getSubscriptionsByIds(subscriptionIds);
-    // Filter to only subscriptions belonging to this app
-    subscriptions = subscriptions.filter((s) => s.appId === app.id);
-  } else {
-    // Get subscriptions based on userId/channelId filters
-    subscriptions = await getSubscriptionsByApp(app.id, {
-      userId,
-      channelId,
-    });
+  request: RenderedSendRequest,
+  apiKeyId: string | undefined,
+  maxRecipients?: number
+): Promise<{ job: NotificationJob; quota: NotificationQuota } | null> {
+  const {
+    payload,
+    localized,
+    fallbackLocale,
+    userId,
+    channelId,
+    subscriptionIds,
+    sendAt,
+    ttl,
+    urgency,
+    topic,
+  } = request;
+  const target = { userId, channelId, subscriptionIds };
+
+  let audience = 0;
+  if (!sendAt) {
+    audience = await countTargetedSubscriptions(app.id, target);
+    if (maxRecipients !== undefined && audience > maxRecipients) {
+      return null;
+    }
+  }
+
+  const quota = await consumeNotificationQuota(app, audience);
+
+  let job: NotificationJob | null;
+  try {
+    job = await createNotificationJob(
+      app.id,
+      {
+        payload,
+        // A localized send is identified by all of its variants
+        payloadHash: hashPayload(localized ? { localized, fallbackLocale } : payload),
+        localized: localized && fallbackLocale
+          ? { variants: localized, fallbackLocale }
+          : undefined,
+        target,
+        apiKeyId,
+        sendAt: sendAt ? new Date(sendAt) : undefined,
+        push: { ttl: ttl ?? DEFAULT_PUSH_TTL_SECONDS, urgency: urgency ?? 'normal', topic },
+      },
+      maxRecipients
+    );
+  } catch (error) {
+    await refundNotificationQuota(app, audience);
+    throw error;
   }
 
-  if (subscriptions.length === 0) {
-    return { sent: 0, failed: 0, total: 0, results: [] };
+  // Subscriptions may have come or gone since the audience was counted
+  const queued = job && !sendAt ? job.total : 0;
+  if (audience > queued) {
+    await refundNotificationQuota(app, audience - queued);
   }
 
-  // Check rate limit
-  const rateLimitCheck = await checkAndIncrementRateLimit(
-    app.id,
-    subscriptions.length > 1 ? 'broadcast' : 'notification',
-    app.rateLimit.maxNotificationsPerMinute
+  return job ? { job, quota } : null;
+}
+
+/**
+ * Queue a notification for the targeted subscriptions; a worker pushes it,
+ * at `request.sendAt` if given. `apiKeyId` is recorded as the requester.
+ * Throws QuotaExceededError if the audience does not fit the app's quota.
+ */
+export async function enqueueNotification(
+  app: App,
+  request: RenderedSendRequest,
+  apiKeyId?: string
+): Promise<{ job: NotificationJob; quota: NotificationQuota }> {
+  // Without a recipient cap a job is always created
+  return (await queueNotification(app, request, apiKeyId)) as {
+    job: NotificationJob;
+    quota: NotificationQuota;
+  };
+}
+
+// Seconds left of the job's TTL, counted from when it was queued
+function remainingTtl(job: NotificationJob): number {
+  const queuedAt = (job.sendAt ?? job.createdAt).getTime();
+  return Math.max(0, job.ttl - Math.floor((Date.now() - queuedAt) / 1000));
+}
+
+/**
+ * Pick the variant of a localized send for a subscriber's locale, following
+ * BCP 47 lookup: the exact tag, then ever shorter prefixes (`zh-Hant-TW` ->
+ * `zh-Hant` -> `zh`), then another variant of the same language (the
+ * fallback if it is one), and finally the fallback locale.
+ */
+export function matchLocale(
+  locale: string | undefined,
+  available: string[],
+  fallbackLocale: string
+): string {
+  if (!locale) return fallbackLocale;
+
+  const byTag = new Map(available.map((tag) => [tag.toLowerCase(), tag]));
+  const subtags = locale.toLowerCase().split('-');
+  for (let length = subtags.length; length > 0; length--) {
+    // A prefix may not end in a singleton such as the `x` of `en-x-custom`
+    if (subtags[length - 1].length === 1) continue;
+    const match = byTag.get(subtags.slice(0, length).join('-'));
+    if (match) return match;
+  }
+
+  const language = (tag: string) => tag.toLowerCase().split('-')[0];
+  if (language(fallbackLocale) === subtags[0]) return fallbackLocale;
+  return available.find((tag) => language(tag) === subtags[0]) ?? fallbackLocale;
+}
+
+// Push one job's share of a claimed batch
+async function sendDeliveries(
+  app: App,
+  job: NotificationJob,
+  deliveries: Delivery[],
+  subscriptions: Map<string, Subscription>
+): Promise<DeliveryOutcome[]> {
+  // Subscriptions may span several key versions during a VAPID key
+  // rotation; each version is decrypted once per batch
+  const vapidCredentials = await loadVapidCredentials(
+    app,
+    Array.from(new Set(
+      deliveries
+        .map((d) => subscriptions.get(d.subscriptionId)?.vapidKeyVersion)
+        .filter((version): version is number => version !== undefined)
+    ))
   );
 
-  if (!rateLimitCheck.allowed) {
-    logRateLimitExceeded(
-      app.id,
-      'notifications',
-      rateLimitCheck.current,
-      rateLimitCheck.limit
+  const maxAttempts = app.metadata.maxDeliveryAttempts ?? DEFAULT_MAX_DELIVERY_ATTEMPTS;
+  const payload = JSON.stringify(job.payload);
+  const localizedPayloads = new Map(
+    Object.entries(job.localized ?? {}).map(([locale, variant]) => [locale, JSON.stringify(variant)])
+  );
+  // A retry delivers the message no later than the first attempt would have
+  const ttl = remainingTtl(job);
+  const options: PushOptions = { ttl, urgency: job.urgency, topic: job.topic };
+  const outcomes: DeliveryOutcome[] = [];
+
+  for (let i = 0; i < deliveries.length; i += CONCURRENCY_LIMIT) {
+    const batch = deliveries.slice(i, i + CONCURRENCY_LIMIT);
+    const batchOutcomes = await Promise.all(
+      batch.map(async (delivery): Promise<DeliveryOutcome> => {
+        const sub = subscriptions.get(delivery.subscriptionId);
+        if (!sub) {
+          return {
+            deliveryId: delivery.id,
+            success: false,
+            error: 'Subscription no longer exists',
+            classification: 'gone',
+          };
+        }
+
+        const locale = job.localized && job.fallbackLocale
+          ? matchLocale(sub.locale, Array.from(localizedPayloads.keys()), job.fallbackLocale)
+          : undefined;
+
+        const result = await sendToSubscription(
+          app,
+          vapidCredentials.get(sub.vapidKeyVersion),
+          sub,
+          (locale && localizedPayloads.get(locale)) || payload,
+          options,
+          delivery.attempts
+        );
+
+        // Claiming counted this attempt, so attempts is the number made so far.
+        // No retry is scheduled once the message would have expired.
+        let retryDelay = result.classification === 'retryable' && delivery.attempts < maxAttempts
+          ? retryDelayMs(delivery.attempts, result.retryAfterMs)
+          : undefined;
+        if (retryDelay !== undefined && retryDelay >= ttl * 1000) {
+          retryDelay = undefined;
+        }
+
+        if (retryDelay !== undefined) {
+          logger.info('Push will be retried', {
+            appId: app.id,
+            subscriptionId: sub.id,
+            attempt: delivery.attempts,
+            retryInMs: retryDelay,
+          });
+        }
+
+        return {
+          deliveryId: delivery.id,
+          success: result.success,
+          statusCode: result.statusCode,
+          error: result.error,
+          classification: result.classification,
+          locale,
+          retryDelayMs: retryDelay,
+        };
+      })
     );
-    throw new Error('Rate limit exceeded');
+    outcomes.push(...batchOutcomes);
   }
 
-  // Send notifications in parallel (with concurrency limit)
-  const CONCURRENCY_LIMIT = 50;
-  const results: SendResult[] = [];
+  return outcomes;
+}
+
+/**
+ * Claim one batch of pending deliveries (optionally of a single job), push
+ * them and record the results. Returns the number of deliveries processed;
+ * 0 means nothing was claimable.
+ */
+export async function processDeliveries(jobId?: string): Promise<number> {
+  const deliveries = await claimDeliveries(CLAIM_BATCH_SIZE, DELIVERY_LEASE_SECONDS, jobId);
+  if (deliveries.length === 0) return 0;
+
+  const jobs = await getNotificationJobsByIds(
+    Array.from(new Set(deliveries.map((d) => d.jobId)))
+  );
+  const subscriptions = new Map(
+    (await getSubscriptionsByIds(Array.from(new Set(deliveries.map((d) => d.subscriptionId)))))
+      .map((sub) => [sub.id, sub])
+  );
+
+  for (const job of jobs) {
+    const jobDeliveries = deliveries.filter((d) => d.jobId === job.id);
+    let app: App | null = null;
+    let outcomes: DeliveryOutcome[];
+
+    try {
+      app = await getAppById(job.appId);
+      outcomes = app
+        ? await sendDeliveries(app, job, jobDeliveries, subscriptions)
+        : jobDeliveries.map((d): DeliveryOutcome => ({
+            deliveryId: d.id,
+            success: false,
+            error: 'App no longer exists',
+            classification: 'permanent',
+          }));
+    } catch (error) {
+      // One job failing as a whole (e.g. an app's VAPID key that does not
+      // decrypt) must not hold up the other jobs of the batch
+      logError('Failed to send delivery batch', error, { appId: job.appId, notificationId: job.id });
+      const maxAttempts = app?.metadata.maxDeliveryAttempts ?? DEFAULT_MAX_DELIVERY_ATTEMPTS;
+      const message = error instanceof Error ? error.message : 'Push failed';
+      outcomes = jobDeliveries.map((d): DeliveryOutcome => ({
+        deliveryId: d.id,
+        success: false,
+        error: message,
+        classification: d.attempts < maxAttempts ? 'retryable' : 'permanent',
+        retryDelayMs: d.attempts < maxAttempts ? retryDelayMs(d.attempts) : undefined,
+      }));
+    }
+
+    // Record each job's results as soon as they are in, so a worker that
+    // runs out of time mid-batch keeps the progress it made
+    await completeDeliveries(outcomes);
+
+    logger.info('Delivery batch complete', {
+      appId: job.appId,
+      notificationId: job.id,
+      sent: outcomes.filter((o) => o.success).length,
+      failed: outcomes.filter((o) => !o.success && o.retryDelayMs === undefined).length,
+      retrying: outcomes.filter((o) => o.retryDelayMs !== undefined).length,
+    });
+  }
+
+  return deliveries.length;
+}
+
+// Scheduled notifications queued per dispatcher round
+const DISPATCH_BATCH_SIZE = 50;
+
+// Count a scheduled notification's audience against its app's quota
+async function admitScheduledNotification(job: NotificationJob, audience: number): Promise<boolean> {
+  const app = await getAppById(job.appId);
+  if (!app) return false;
+
+  try {
+    await consumeNotificationQuota(app, audience);
+    return true;
+  } catch (error) {
+    if (error instanceof QuotaExceededError) return false;
+    throw error;
+  }
+}
+
+// Give back the part of an admitted audience that was not queued
+async function refundScheduledNotification(job: NotificationJob, recipients: number): Promise<void> {
+  const app = await getAppById(job.appId);
+  if (app) await refundNotificationQuota(app, recipients);
+}
 
-  for (let i = 0; i < subscriptions.length; i += CONCURRENCY_LIMIT) {
-    const batch = subscriptions.slice(i, i + CONCURRENCY_LIMIT);
-    const batchResults = await Promise.all(
-      batch.map((sub) => sendToSubscription(app, sub, payloadString))
+/**
+ * Queue scheduled notifications whose sendAt has passed, until none are
+ * left or `deadline` (epoch ms) is reached. One whose audience no longer
+ * fits the app's quota is marked rejected. Returns how many were queued.
+ */
+export async function dispatchScheduledNotifications(deadline: number): Promise<number> {
+  let dispatched = 0;
+  while (Date.now() < deadline) {
+    const jobs = await dispatchDueNotifications(
+      DISPATCH_BATCH_SIZE,
+      admitScheduledNotification,
+      refundScheduledNotification
     );
-    results.push(...batchResults);
+    dispatched += jobs.filter((job) => job.status !== 'rejected').length;
+    if (jobs.length < DISPATCH_BATCH_SIZE) break;
   }
+  return dispatched;
+}
+
+/**
+ * Work through the queue until it is empty or the deadline (epoch ms)
+ * passes. Used by the cron worker route.
+ */
+export async function drainDeliveryQueue(deadline: number): Promise<number> {
+  let processed = 0;
+  while (Date.now() < deadline) {
+    const count = await processDeliveries();
+    if (count === 0) break;
+    processed += count;
+  }
+  return processed;
+}
+
+/**
+ * Queue a notification and push it within the request, for callers that
+ * need the sent/failed counts. Returns null if more than
+ * MAX_SYNC_RECIPIENTS are targeted; throws QuotaExceededError if the
+ * audience does not fit the app's quota.
+ */
+export async function sendNotifications(
+  app: App,
+  request: RenderedSendRequest,
+  apiKeyId?: string
+): Promise<BatchSendResult | null> {
+  const queued = await queueNotification(
+    app,
+    { ...request, sendAt: undefined },
+    apiKeyId,
+    MAX_SYNC_RECIPIENTS
+  );
+  if (!queued) return null;
 
-  const sent = results.filter((r) => r.success).length;
-  const failed = results.filter((r) => !r.success).length;
+  const { job, quota } = queued;
+
+  while (await processDeliveries(job.id) > 0) {
+    // keep claiming until this job has nothing left to send
+  }
+
+  // Read the outcome back from the queue: a cron worker may have picked up
+  // part of the job concurrently. Retryable failures stay queued; the
+  // worker retries them after their backoff.
+  const deliveries = await getDeliveriesByJob(job.id);
+  const results: SendResult[] = deliveries
+    .filter((d) => d.status !== 'pending' || d.classification === 'retryable')
+    .map((d) => ({
+      subscriptionId: d.subscriptionId,
+      success: d.status === 'sent',
+      statusCode: d.statusCode,
+      error: d.error,
+      classification: d.status === 'sent' ? undefined : d.classification,
+      attempts: d.attempts,
+      nextAttemptAt: d.nextAttemptAt,
+    }));
+
+  const sent = deliveries.filter((d) => d.status === 'sent').length;
+  const failed = deliveries.filter((d) => d.status === 'failed').length;
+  const retrying = deliveries.filter((d) => d.status === 'pending' && d.classification === 'retryable').length;
+
+  let locales: Record<string, LocaleCounts> | undefined;
+  if (job.localized) {
+    locales = {};
+    for (const d of deliveries) {
+      if (!d.locale) continue;
+      const counts = locales[d.locale] ?? { sent: 0, failed: 0, retrying: 0 };
+      locales[d.locale] = counts;
+      if (d.status === 'sent') counts.sent++;
+      else if (d.status === 'failed') counts.failed++;
+      else if (d.classification === 'retryable') counts.retrying++;
+    }
+  }
 
   logger.info('Batch notification complete', {
     appId: app.id,
+    notificationId: job.id,
     sent,
     failed,
-    total: subscriptions.length,
+    retrying,
+    total: job.total,
   });
 
   return {
+    notificationId: job.id,
     sent,
     failed,
-    total: subscriptions.length,
+    retrying,
+    total: job.total,
     results,
+    locales,
+    quota,
+  };
+}
+
+// Response body for a synchronous send (/api/send?sync=true, test pushes)
+export function toSendResponse(result: BatchSendResult) {
+  return {
+    notificationId: result.notificationId,
+    sent: result.sent,
+    failed: result.failed,
+    retrying: result.retrying,
+    total: result.total,
+    locales: result.locales ?? null,
+    failures: result.results
+      .filter((r) => !r.success)
+      .map((r) => ({
+        subscriptionId: r.subscriptionId,
+        error: r.error,
+        statusCode: r.statusCode ?? null,
+        classification: r.classification,
+        attempts: r.attempts,
+        nextAttemptAt: r.nextAttemptAt?.toISOString() ?? null,
+      })),
   };
 }
 
-// Direct send without rate limiting (for testing or internal use)
+// Response body for a stored notification (/api/notifications)
+export function toNotificationResponse(job: NotificationJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    sendAt: job.sendAt?.toISOString() ?? null,
+    ttl: job.ttl,
+    urgency: job.urgency,
+    topic: job.topic ?? null,
+    payload: job.payload,
+    localized: job.localized ?? null,
+    fallbackLocale: job.fallbackLocale ?? null,
+    payloadHash: job.payloadHash,
+    target: job.target,
+    apiKeyId: job.apiKeyId ?? null,
+    total: job.total,
+    sent: job.sent,
+    failed: job.failed,
+    pending: job.total - job.sent - job.failed,
+    createdAt: job.createdAt.toISOString(),
+    completedAt: job.completedAt?.toISOString() ?? null,
+  };
+}
+
+// `cursor` parameter of /api/notifications, encoded like subscription cursors
+export function encodeNotificationCursor(cursor: NotificationCursor): string {
+  return encodeSubscriptionCursor(cursor);
+}
+
+export function decodeNotificationCursor(value: string): NotificationCursor | null {
+  return decodeSubscriptionCursor(value);
+}
+
+// A recipient of a stored notification with its attempt history
+export function toDeliveryResponse(delivery: Delivery, attempts: DeliveryAttempt[]) {
+  return {
+    id: delivery.id,
+    subscriptionId: delivery.subscriptionId,
+    userId: delivery.userId ?? null,
+    locale: delivery.locale ?? null,
+    status: delivery.status,
+    statusCode: delivery.statusCode ?? null,
+    error: delivery.error ?? null,
+    classification: delivery.classification ?? null,
+    attempts: attempts.map((attempt) => ({
+      attempt: attempt.attempt,
+      success: attempt.success,
+      statusCode: attempt.statusCode ?? null,
+      error: attempt.error ?? null,
+      classification: attempt.classification ?? null,
+      at: attempt.createdAt.toISOString(),
+    })),
+    nextAttemptAt: delivery.nextAttemptAt?.toISOString() ?? null,
+    updatedAt: delivery.updatedAt.toISOString(),
+  };
+}
+
+// Direct send without rate limiting (for testing or internal use).
+// Uses the app's active VAPID key.
 export async function sendDirectNotification(
   app: App,
   endpoint: string,
@@ -176,11 +810,15 @@ export async function sendDirectNotification(
   auth: string,
   payload: Record<string, unknown>
 ): Promise<SendResult> {
-  webPush.setVapidDetails(
-    VAPID_SUBJECT,
-    app.vapidPublicKey,
-    app.vapidPrivateKey
-  );
+  const vapid = (await loadVapidCredentials(app, [app.vapidKeyVersion])).get(app.vapidKeyVersion);
+  if (!vapid) {
+    return {
+      subscriptionId: 'direct',
+      success: false,
+      error: `VAPID key version ${app.vapidKeyVersion} no longer exists`,
+      classification: 'permanent',
+    };
+  }
 
   const pushSubscription: PushSubscription = {
     endpoint,
@@ -194,7 +832,12 @@ export async function sendDirectNotification(
     const result = await webPush.sendNotification(
       pushSubscription,
       JSON.stringify(payload),
-      { TTL: 86400, urgency: 'normal' }
+      {
+        TTL: DEFAULT_PUSH_TTL_SECONDS,
+        urgency: 'normal',
+        timeout: PUSH_TIMEOUT_MS,
+        headers: { Authorization: getVapidAuthorization(app.id, vapid, endpoint) },
+      }
     );
 
     return {
@@ -209,6 +852,7 @@ export async function sendDirectNotification(
       success: false,
       statusCode: err.statusCode,
       error: err.message || 'Push failed',
+      classification: classifyPushFailure(err.statusCode),
     };
   }
 }
@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { after, before, describe, it, type TestContext } from 'node:test';
+import { createMemoryRateLimiter, createRedisRateLimiter, type RateLimiter } from './rate-limit';
+import { createRedisClient, type RedisClient } from './redis';
+
+const WINDOW_MS = 60_000;
+
+// Freeze the clock at the start of a window. Later than now, so Redis does
+// not expire the counters a test writes.
+function startWindow(t: TestContext): number {
+  const start = (Math.floor(Date.now() / WINDOW_MS) + 10) * WINDOW_MS;
+  t.mock.timers.enable({ apis: ['Date'], now: start });
+  return start;
+}
+
+// The same behaviour from every backend. Each test limits its own app so
+// Redis counters left by earlier runs do not interfere.
+function itLimitsLikeASlidingWindow(limiter: () => RateLimiter) {
+  it('counts up to the limit and rejects what does not fit', async (t) => {
+    const start = startWindow(t);
+    const appId = crypto.randomUUID();
+    const consume = (cost: number) => limiter().consume(appId, 'notification', 5, WINDOW_MS, cost);
+
+    assert.deepEqual(await consume(3), { allowed: true, current: 3, limit: 5, resetAt: new Date(start + WINDOW_MS) });
+    // Rejected requests are not counted
+    assert.deepEqual(await consume(3), { allowed: false, current: 3, limit: 5, resetAt: new Date(start + WINDOW_MS) });
+    assert.equal((await consume(2)).current, 5);
+    // A cost of 0 only reads the count
+    assert.deepEqual(await consume(0), { allowed: true, current: 5, limit: 5, resetAt: new Date(start + WINDOW_MS) });
+    assert.equal((await consume(1)).allowed, false);
+  });
+
+  it('weights the previous window by how much of it is still in range', async (t) => {
+    startWindow(t);
+    const appId = crypto.randomUUID();
+    const consume = (cost: number) => limiter().consume(appId, 'notification', 10, WINDOW_MS, cost);
+
+    assert.equal((await consume(10)).allowed, true);
+
+    // Start of the next window: all of the previous one still counts
+    t.mock.timers.tick(WINDOW_MS);
+    assert.deepEqual(await consume(1), { allowed: false, current: 10, limit: 10, resetAt: new Date(Date.now() + WINDOW_MS) });
+
+    // Halfway through: half of it does
+    t.mock.timers.tick(WINDOW_MS / 2);
+    assert.equal((await consume(6)).allowed, false);
+    assert.equal((await consume(5)).current, 10);
+
+    // Two windows on, nothing is left
+    t.mock.timers.tick(2 * WINDOW_MS);
+    assert.equal((await consume(0)).current, 0);
+  });
+
+  it('refunds within the current window', async (t) => {
+    startWindow(t);
+    const appId = crypto.randomUUID();
+    const consume = (cost: number) => limiter().consume(appId, 'notification', 5, WINDOW_MS, cost);
+
+    await consume(5);
+    await limiter().refund(appId, 'notification', 2, WINDOW_MS);
+    assert.equal((await consume(0)).current, 3);
+
+    // Never below zero
+    await limiter().refund(appId, 'notification', 100, WINDOW_MS);
+    assert.equal((await consume(0)).current, 0);
+  });
+
+  it('counts each app and action separately', async (t) => {
+    startWindow(t);
+    const [appA, appB] = [crypto.randomUUID(), crypto.randomUUID()];
+
+    assert.equal((await limiter().consume(appA, 'notification', 1, WINDOW_MS, 1)).allowed, true);
+    assert.equal((await limiter().consume(appA, 'notification', 1, WINDOW_MS, 1)).allowed, false);
+    assert.equal((await limiter().consume(appA, 'subscription', 1, WINDOW_MS, 1)).allowed, true);
+    assert.equal((await limiter().consume(appB, 'notification', 1, WINDOW_MS, 1)).allowed, true);
+  });
+}
+
+describe('createMemoryRateLimiter', () => {
+  const limiter = createMemoryRateLimiter();
+  itLimitsLikeASlidingWindow(() => limiter);
+});
+
+// Runs the Lua scripts, so this needs a Redis-compatible server
+describe('createRedisRateLimiter', { skip: !process.env.REDIS_URL && 'REDIS_URL is not set' }, () => {
+  let client: RedisClient;
+  let limiter: RateLimiter;
+
+  before(() => {
+    client = createRedisClient(process.env.REDIS_URL as string);
+    limiter = createRedisRateLimiter(client);
+  });
+
+  after(() => {
+    client.close();
+  });
+
+  itLimitsLikeASlidingWindow(() => limiter);
+
+  it('expires a counter once the window after it has passed', async (t) => {
+    const start = startWindow(t);
+    const appId = crypto.randomUUID();
+    await limiter.consume(appId, 'notification', 5, WINDOW_MS, 1);
+
+    assert.equal(
+      await client.command('PEXPIRETIME', `ratelimit:${appId}:notification:${start}`),
+      start + 2 * WINDOW_MS
+    );
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Rate limiting
+ *
+ * Limits are sliding windows: a request counts against what the current
+ * fixed window has counted plus the previous window's count, weighted by
+ * how much of the previous window still lies within the last `windowMs`.
+ * Unlike a plain fixed window, a burst just before a window ends still
+ * counts just after it.
+ *
+ * The counters live in Postgres (the default), in process memory (one
+ * instance, or local development) or in a Redis-compatible server,
+ * chosen with RATE_LIMIT_BACKEND: `postgres`, `memory` or `redis`, the
+ * last connecting to REDIS_URL.
+ */
+
+import { checkAndIncrementRateLimit, refundRateLimit } from './db';
+import { createRedisClient, type RedisClient } from './redis';
+import type { RateLimitLog } from './types';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  current: number; // counted in the sliding window, including this request if allowed
+  limit: number;
+  resetAt: Date; // end of the current fixed window
+}
+
+export interface RateLimiter {
+  // Count `cost` if all of it fits within `limit`; a cost of 0 only reads
+  // the count
+  consume(
+    appId: string,
+    action: RateLimitLog['action'],
+    limit: number,
+    windowMs: number,
+    cost: number
+  ): Promise<RateLimitResult>;
+  // Give back what consume counted in the current window, for a request
+  // that was not carried out after all
+  refund(appId: string, action: RateLimitLog['action'], cost: number, windowMs: number): Promise<void>;
+}
+
+interface WindowPosition {
+  start: number;
+  previousStart: number;
+  overlap: number; // share of the previous window within the sliding window
+  resetAt: Date;
+}
+
+function windowAt(now: number, windowMs: number): WindowPosition {
+  const start = Math.floor(now / windowMs) * windowMs;
+  return {
+    start,
+    previousStart: start - windowMs,
+    overlap: 1 - (now - start) / windowMs,
+    resetAt: new Date(start + windowMs),
+  };
+}
+
+export const postgresRateLimiter: RateLimiter = {
+  consume: checkAndIncrementRateLimit,
+  refund: refundRateLimit,
+};
+
+// Counters kept by the in-memory backend; the least recently started
+// window is dropped beyond this
+const MAX_MEMORY_COUNTERS = 100_000;
+
+interface MemoryCounter {
+  windowStart: number;
+  count: number;
+  previous: number; // the previous window's final count
+}
+
+/** Counters in this process only; each instance limits on its own */
+export function createMemoryRateLimiter(): RateLimiter {
+  const counters = new Map<string, MemoryCounter>();
+
+  // The key's counter for the current window, rolled over if needed
+  function counterFor(key: string, window: WindowPosition): MemoryCounter {
+    const counter = counters.get(key);
+    if (counter && counter.windowStart === window.start) {
+      return counter;
+    }
+
+    const current = {
+      windowStart: window.start,
+      count: 0,
+      previous: counter && counter.windowStart === window.previousStart ? counter.count : 0,
+    };
+    counters.delete(key);
+    if (counters.size >= MAX_MEMORY_COUNTERS) {
+      // Maps iterate in insertion order, so this evicts the oldest window
+      const oldest = counters.keys().next().value;
+      if (oldest !== undefined) counters.delete(oldest);
+    }
+    counters.set(key, current);
+    return current;
+  }
+
+  return {
+    async consume(appId, action, limit, windowMs, cost) {
+      const window = windowAt(Date.now(), windowMs);
+      const counter = counterFor(`${appId}:${action}`, window);
+      const used = counter.count + Math.floor(counter.previous * window.overlap);
+
+      if (used + cost > limit) {
+        return { allowed: false, current: used, limit, resetAt: window.resetAt };
+      }
+      counter.count += cost;
+      return { allowed: true, current: used + cost, limit, resetAt: window.resetAt };
+    },
+
+    async refund(appId, action, cost, windowMs) {
+      const counter = counters.get(`${appId}:${action}`);
+      if (counter && counter.windowStart === windowAt(Date.now(), windowMs).start) {
+        counter.count = Math.max(counter.count - cost, 0);
+      }
+    },
+  };
+}
+
+// KEYS: current and previous window counters
+// ARGV: overlap, limit, cost, expiry of the current counter (epoch ms)
+// Returns {allowed (0/1), count in the sliding window}
+const CONSUME_SCRIPT = `
+local used = tonumber(redis.call('GET', KEYS[1]) or '0')
+  + math.floor(tonumber(redis.call('GET', KEYS[2]) or '0') * tonumber(ARGV[1]))
+local limit = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+if used + cost > limit then
+  return {0, used}
+end
+redis.call('INCRBY', KEYS[1], cost)
+redis.call('PEXPIREAT', KEYS[1], ARGV[4])
+return {1, used + cost}
+`;
+
+// KEYS: current window counter; ARGV: cost
+const REFUND_SCRIPT = `
+local count = tonumber(redis.call('GET', KEYS[1]) or '0')
+if count > 0 then
+  redis.call('DECRBY', KEYS[1], math.min(count, tonumber(ARGV[1])))
+end
+return 0
+`;
+
+/**
+ * Counters in a Redis-compatible server, shared by all instances. Each
+ * check is one atomic script call; a counter expires once the window
+ * after it has passed.
+ */
+export function createRedisRateLimiter(client: RedisClient): RateLimiter {
+  const counterKey = (appId: string, action: string, windowStart: number) =>
+    `ratelimit:${appId}:${action}:${windowStart}`;
+
+  return {
+    async consume(appId, action, limit, windowMs, cost) {
+      const window = windowAt(Date.now(), windowMs);
+      const reply = await client.command(
+        'EVAL',
+        CONSUME_SCRIPT,
+        2,
+        counterKey(appId, action, window.start),
+        counterKey(appId, action, window.previousStart),
+        window.overlap,
+        limit,
+        cost,
+        window.start + 2 * windowMs
+      );
+
+      const [allowed, current] = reply as [number, number];
+      return { allowed: allowed === 1, current, limit, resetAt: window.resetAt };
+    },
+
+    async refund(appId, action, cost, windowMs) {
+      const window = windowAt(Date.now(), windowMs);
+      await client.command('EVAL', REFUND_SCRIPT, 1, counterKey(appId, action, window.start), cost);
+    },
+  };
+}
+
+function createConfiguredRateLimiter(): RateLimiter {
+  const backend = process.env.RATE_LIMIT_BACKEND || 'postgres';
+
+  switch (backend) {
+    case 'postgres':
+      return postgresRateLimiter;
+    case 'memory':
+      return createMemoryRateLimiter();
+    case 'redis': {
+      const url = process.env.REDIS_URL;
+      if (!url) {
+        throw new Error('REDIS_URL is required when RATE_LIMIT_BACKEND is redis');
+      }
+      return createRedisRateLimiter(createRedisClient(url));
+    }
+    default:
+      throw new Error(`Unknown RATE_LIMIT_BACKEND "${backend}"; use postgres, memory or redis`);
+  }
+}
+
+let rateLimiter: RateLimiter | null = null;
+
+/** The rate limiter selected by RATE_LIMIT_BACKEND */
+export function getRateLimiter(): RateLimiter {
+  if (!rateLimiter) {
+    rateLimiter = createConfiguredRateLimiter();
+  }
+  return rateLimiter;
+}
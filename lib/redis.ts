@@ -0,0 +1,204 @@
+/**
+ * Minimal Redis client
+ *
+ * Speaks RESP2 over one TCP (`redis://`) or TLS (`rediss://`) connection,
+ * which is all the rate limiter needs, so any Redis-compatible server
+ * works (Redis, Valkey, KeyDB, Dragonfly). Commands are pipelined and
+ * answered in order. After a connection error every pending command
+ * fails and the next one reconnects.
+ *
+ * URL format: `redis[s]://[[user]:password@]host[:port][/db]`
+ */
+
+import net from 'net';
+import tls from 'tls';
+
+export type RedisReply = string | number | null | RedisReply[];
+
+export class RedisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisError';
+  }
+}
+
+export interface RedisClient {
+  command(...args: Array<string | number>): Promise<RedisReply>;
+  close(): void;
+}
+
+// A connection with a command unanswered this long (including while
+// connecting) is dropped
+const COMMAND_TIMEOUT_MS = 5_000;
+
+interface PendingCommand {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+function encodeCommand(args: Array<string | number>): string {
+  return `*${args.length}\r\n` + args.map((arg) => {
+    const value = String(arg);
+    return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  }).join('');
+}
+
+// Parse one reply starting at `start`; undefined if it is not all there
+// yet. An error inside an array fails the whole reply.
+function parseReply(
+  buffer: Buffer,
+  start: number
+): { reply: RedisReply | RedisError; end: number } | undefined {
+  const lineEnd = buffer.indexOf('\r\n', start);
+  if (lineEnd === -1) return undefined;
+
+  const type = String.fromCharCode(buffer[start]);
+  const line = buffer.toString('utf8', start + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { reply: line, end: next };
+    case '-':
+      return { reply: new RedisError(line), end: next };
+    case ':':
+      return { reply: Number(line), end: next };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) return { reply: null, end: next };
+      if (buffer.length < next + length + 2) return undefined;
+      return { reply: buffer.toString('utf8', next, next + length), end: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) return { reply: null, end: next };
+
+      const items: RedisReply[] = [];
+      let end = next;
+      let error: RedisError | undefined;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, end);
+        if (!item) return undefined;
+        if (item.reply instanceof RedisError) error = error || item.reply;
+        else items.push(item.reply);
+        end = item.end;
+      }
+      return { reply: error || items, end };
+    }
+    default:
+      throw new RedisError(`Unexpected reply type ${JSON.stringify(type)}`);
+  }
+}
+
+export function createRedisClient(url: string): RedisClient {
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'redis:' && parsed.protocol !== 'rediss:') {
+    throw new Error('Redis URL must start with redis:// or rediss://');
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  const port = Number(parsed.port || 6379);
+  const username = decodeURIComponent(parsed.username);
+  const password = decodeURIComponent(parsed.password);
+  const db = parsed.pathname.slice(1);
+
+  let socket: net.Socket | null = null;
+  let ready: Promise<void> = Promise.resolve();
+  let buffered: Buffer = Buffer.alloc(0);
+  const pending: PendingCommand[] = [];
+
+  function fail(error: Error) {
+    socket = null;
+    buffered = Buffer.alloc(0);
+    for (const command of pending.splice(0)) {
+      command.reject(error);
+    }
+  }
+
+  function onData(chunk: Buffer) {
+    buffered = buffered.length > 0 ? Buffer.concat([buffered, chunk]) : chunk;
+
+    let offset = 0;
+    while (offset < buffered.length) {
+      let parsedReply: ReturnType<typeof parseReply>;
+      try {
+        parsedReply = parseReply(buffered, offset);
+      } catch (error) {
+        socket?.destroy(error as Error);
+        return;
+      }
+      if (!parsedReply) break;
+
+      offset = parsedReply.end;
+      const command = pending.shift();
+      if (parsedReply.reply instanceof RedisError) command?.reject(parsedReply.reply);
+      else command?.resolve(parsedReply.reply);
+    }
+
+    buffered = buffered.subarray(offset);
+    if (pending.length === 0) socket?.setTimeout(0);
+  }
+
+  function connect(): net.Socket {
+    const connection = parsed.protocol === 'rediss:'
+      ? tls.connect({ host, port, servername: net.isIP(host) ? undefined : host })
+      : net.connect({ host, port });
+
+    connection.setNoDelay(true);
+    connection.on('data', onData);
+    connection.on('timeout', () => connection.destroy(new RedisError('Redis connection timed out')));
+    connection.on('error', (error) => {
+      if (socket === connection) fail(error);
+    });
+    connection.on('close', () => {
+      if (socket === connection) fail(new RedisError('Redis connection closed'));
+    });
+
+    return connection;
+  }
+
+  function send(args: Array<string | number>): Promise<RedisReply> {
+    const connection = socket;
+    if (!connection) {
+      return Promise.reject(new RedisError('Redis connection closed'));
+    }
+
+    return new Promise((resolve, reject) => {
+      pending.push({ resolve, reject });
+      connection.setTimeout(COMMAND_TIMEOUT_MS);
+      connection.write(encodeCommand(args));
+    });
+  }
+
+  // Authenticate and select the database before any other command runs
+  async function handshake(connection: net.Socket): Promise<void> {
+    try {
+      if (password) {
+        await send(username ? ['AUTH', username, password] : ['AUTH', password]);
+      }
+      if (db) {
+        await send(['SELECT', db]);
+      }
+    } catch (error) {
+      connection.destroy();
+      throw error;
+    }
+  }
+
+  return {
+    async command(...args) {
+      if (!socket) {
+        socket = connect();
+        ready = handshake(socket);
+      }
+      await ready;
+      return send(args);
+    },
+
+    close() {
+      const connection = socket;
+      fail(new RedisError('Redis client closed'));
+      connection?.end();
+    },
+  };
+}
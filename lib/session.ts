@@ -0,0 +1,94 @@
+/**
+ * Server-issued wallet sessions
+ *
+ * After a successful Sign-In With Ethereum login the server issues an
+ * HS256 JWT bound to a row in `auth_sessions`. The token is set as an
+ * HttpOnly cookie for the dashboard and returned in the response body
+ * for API clients that prefer `Authorization: Bearer`.
+ */
+
+import crypto from 'crypto';
+import { getAuthSessionById } from './db';
+
+export const SESSION_COOKIE_NAME = 'vp_session';
+export const SESSION_TTL_SECONDS = 60 * 60 * 24; // 24 hours
+export const NONCE_TTL_SECONDS = 60 * 10; // 10 minutes
+
+interface SessionTokenPayload {
+  sid: string; // auth_sessions.id
+  sub: string; // wallet address
+  iat: number;
+  exp: number;
+}
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('SESSION_SECRET is not configured');
+  }
+  return secret;
+}
+
+function sign(input: string): string {
+  return crypto
+    .createHmac('sha256', getSessionSecret())
+    .update(input)
+    .digest('base64url');
+}
+
+function encodeSegment(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Sign a session token for an `auth_sessions` row
+ */
+export function createSessionToken(
+  sessionId: string,
+  walletAddress: string,
+  expiresAt: Date
+): string {
+  const payload: SessionTokenPayload = {
+    sid: sessionId,
+    sub: walletAddress.toLowerCase(),
+    iat: Math.floor(Date.now() / 1000),
+    exp: Math.floor(expiresAt.getTime() / 1000),
+  };
+
+  const signingInput = `${encodeSegment({ alg: 'HS256', typ: 'JWT' })}.${encodeSegment(payload)}`;
+  return `${signingInput}.${sign(signingInput)}`;
+}
+
+/**
+ * Verify a session token's signature and expiry, then check the backing
+ * session has not been revoked
+ */
+export async function verifySessionToken(
+  token: string
+): Promise<{ sessionId: string; walletAddress: string } | { error: 'invalid' | 'expired' | 'revoked' }> {
+  const parts = token.split('.');
+  if (parts.length !== 3) return { error: 'invalid' };
+
+  const [headerB64, payloadB64, signature] = parts;
+  const expected = Buffer.from(sign(`${headerB64}.${payloadB64}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return { error: 'invalid' };
+  }
+
+  let payload: SessionTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(payloadB64, 'base64url').toString());
+  } catch {
+    return { error: 'invalid' };
+  }
+
+  if (Date.now() / 1000 > payload.exp) return { error: 'expired' };
+
+  const session = await getAuthSessionById(payload.sid);
+  if (!session || session.walletAddress !== payload.sub) return { error: 'invalid' };
+  if (session.revokedAt) return { error: 'revoked' };
+  if (session.expiresAt.getTime() < Date.now()) return { error: 'expired' };
+
+  return { sessionId: session.id, walletAddress: session.walletAddress };
+}
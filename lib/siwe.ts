@@ -0,0 +1,177 @@
+/**
+ * Sign-In With Ethereum (EIP-4361) message helpers
+ *
+ * Used by the dashboard to build the message a wallet signs, and by
+ * /api/auth/verify to parse it back into fields it can check.
+ */
+
+export interface SiweMessage {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+/**
+ * Build an EIP-4361 message string from its fields
+ */
+export function buildSiweMessage(message: SiweMessage): string {
+  const lines = [
+    `${message.domain}${HEADER_SUFFIX}`,
+    message.address,
+    '',
+  ];
+
+  if (message.statement) {
+    lines.push(message.statement, '');
+  } else {
+    lines.push('');
+  }
+
+  lines.push(
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`
+  );
+
+  if (message.expirationTime) lines.push(`Expiration Time: ${message.expirationTime}`);
+  if (message.notBefore) lines.push(`Not Before: ${message.notBefore}`);
+  if (message.requestId) lines.push(`Request ID: ${message.requestId}`);
+  if (message.resources && message.resources.length > 0) {
+    lines.push('Resources:', ...message.resources.map((r) => `- ${r}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Parse an EIP-4361 message string
+ *
+ * Returns null if the message does not follow the EIP-4361 layout.
+ */
+export function parseSiweMessage(input: string): SiweMessage | null {
+  const lines = input.split('\n');
+
+  const header = lines[0] ?? '';
+  if (!header.endsWith(HEADER_SUFFIX)) return null;
+  const domain = header.slice(0, -HEADER_SUFFIX.length);
+  if (!domain) return null;
+
+  const address = lines[1] ?? '';
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) return null;
+  if (lines[2] !== '') return null;
+
+  // Optional statement: either "\n<statement>\n\n" or just "\n\n"
+  let index = 3;
+  let statement: string | undefined;
+  if (lines[index] === '') {
+    index += 1;
+  } else {
+    statement = lines[index];
+    if (lines[index + 1] !== '') return null;
+    index += 2;
+  }
+
+  const fields: Record<string, string> = {};
+  const resources: string[] = [];
+  let inResources = false;
+
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+    if (inResources) {
+      if (!line.startsWith('- ')) return null;
+      resources.push(line.slice(2));
+      continue;
+    }
+    if (line === 'Resources:') {
+      inResources = true;
+      continue;
+    }
+    const separator = line.indexOf(': ');
+    if (separator === -1) return null;
+    fields[line.slice(0, separator)] = line.slice(separator + 2);
+  }
+
+  const chainId = Number(fields['Chain ID']);
+  if (
+    !fields['URI'] ||
+    !fields['Version'] ||
+    !Number.isInteger(chainId) ||
+    !fields['Nonce'] ||
+    !fields['Issued At']
+  ) {
+    return null;
+  }
+
+  return {
+    domain,
+    address,
+    statement,
+    uri: fields['URI'],
+    version: fields['Version'],
+    chainId,
+    nonce: fields['Nonce'],
+    issuedAt: fields['Issued At'],
+    expirationTime: fields['Expiration Time'],
+    notBefore: fields['Not Before'],
+    requestId: fields['Request ID'],
+    resources: inResources ? resources : undefined,
+  };
+}
+
+const CLOCK_SKEW_MS = 60 * 1000;
+
+/**
+ * Check a parsed message against what this server expects
+ *
+ * Returns a short reason string when the message must be rejected.
+ */
+export function validateSiweMessage(
+  message: SiweMessage,
+  expected: { domain: string; chainIds: number[]; maxAgeSeconds: number; now?: Date }
+): string | null {
+  const now = (expected.now ?? new Date()).getTime();
+
+  if (message.domain !== expected.domain) return 'Domain mismatch';
+
+  let uriHost: string;
+  try {
+    uriHost = new URL(message.uri).host;
+  } catch {
+    return 'Invalid URI';
+  }
+  if (uriHost !== expected.domain) return 'URI does not match domain';
+
+  if (message.version !== '1') return 'Unsupported version';
+  if (!expected.chainIds.includes(message.chainId)) return 'Unsupported chain';
+  if (!/^[A-Za-z0-9]{8,}$/.test(message.nonce)) return 'Invalid nonce';
+
+  const issuedAt = Date.parse(message.issuedAt);
+  if (Number.isNaN(issuedAt)) return 'Invalid issued-at';
+  if (issuedAt > now + CLOCK_SKEW_MS) return 'Issued-at is in the future';
+  if (issuedAt < now - expected.maxAgeSeconds * 1000) return 'Message is too old';
+
+  if (message.expirationTime) {
+    const expirationTime = Date.parse(message.expirationTime);
+    if (Number.isNaN(expirationTime) || expirationTime < now) return 'Message expired';
+  }
+
+  if (message.notBefore) {
+    const notBefore = Date.parse(message.notBefore);
+    if (Number.isNaN(notBefore) || notBefore > now + CLOCK_SKEW_MS) return 'Message not yet valid';
+  }
+
+  return null;
+}
@@ -0,0 +1,63 @@
+/**
+ * Subscription listing
+ *
+ * Subscriptions are shown to API callers without their endpoint path or
+ * `p256dh`/`auth` keys: together those are what it takes to push to the
+ * device. The endpoint host tells which push service it uses.
+ */
+
+import { validate as isUuid } from 'uuid';
+import type { SubscriptionCursor } from './db';
+import { PUSH_SERVICE_HOSTS } from './types';
+import type { PushService, Subscription } from './types';
+
+// created_at as Postgres prints it, e.g. `2026-01-02 09:00:00.123456+00`
+const CURSOR_TIMESTAMP = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d{1,6})?[+-]\d{2}(:\d{2}){0,2}$/;
+
+/** Opaque `cursor` parameter for the page after `cursor` */
+export function encodeSubscriptionCursor(cursor: SubscriptionCursor): string {
+  return Buffer.from(JSON.stringify([cursor.createdAt, cursor.id])).toString('base64url');
+}
+
+/** The position in a `cursor` parameter, or null if it is not one */
+export function decodeSubscriptionCursor(value: string): SubscriptionCursor | null {
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (!Array.isArray(decoded) || decoded.length !== 2) return null;
+
+    const [createdAt, id] = decoded;
+    if (typeof createdAt !== 'string' || !CURSOR_TIMESTAMP.test(createdAt)) return null;
+    if (typeof id !== 'string' || !isUuid(id)) return null;
+    return { createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+/** The known push service an endpoint host belongs to, if any */
+export function getPushService(host: string): PushService | null {
+  const normalized = host.toLowerCase();
+  for (const [service, hosts] of Object.entries(PUSH_SERVICE_HOSTS)) {
+    if (hosts.some((known) => normalized === known || normalized.endsWith(`.${known}`))) {
+      return service as PushService;
+    }
+  }
+  return null;
+}
+
+export function toSubscriptionResponse(subscription: Subscription) {
+  const endpointHost = new URL(subscription.endpoint).hostname;
+
+  return {
+    id: subscription.id,
+    endpointHost,
+    pushService: getPushService(endpointHost),
+    userId: subscription.userId ?? null,
+    channelId: subscription.channelId ?? null,
+    metadata: subscription.metadata ?? {},
+    locale: subscription.locale ?? null,
+    vapidKeyVersion: subscription.vapidKeyVersion,
+    createdAt: subscription.createdAt.toISOString(),
+    expiresAt: subscription.expiresAt?.toISOString() ?? null,
+  };
+}
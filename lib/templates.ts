@@ -0,0 +1,136 @@
+/**
+ * Notification templates
+ *
+ * A template holds the text of a notification with `{{variable}}`
+ * placeholders. `/api/send` renders it with the request's `variables` and
+ * then validates the result like any other payload.
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { errorResponse, zodValidationErrorResponse } from './api-utils';
+import { getTemplateById } from './db';
+import { ErrorCodes, NotificationPayloadSchema } from './types';
+import type { NotificationTemplate, RenderedSendRequest, SendNotificationRequest } from './types';
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+// Every string of the template that placeholders may appear in
+function templateStrings(template: NotificationTemplate): string[] {
+  return [
+    template.title,
+    template.body,
+    template.url,
+    template.icon,
+    ...(template.actions ?? []).flatMap((action) => [action.action, action.title, action.icon]),
+  ].filter((value): value is string => value !== undefined);
+}
+
+/** Names of the variables a template uses, in order of first use */
+export function getTemplateVariables(template: NotificationTemplate): string[] {
+  const names = new Set<string>();
+  for (const text of templateStrings(template)) {
+    for (const match of text.matchAll(PLACEHOLDER)) {
+      names.add(match[1]);
+    }
+  }
+  return Array.from(names);
+}
+
+/** Variables a send must supply: those without a default */
+export function getRequiredTemplateVariables(template: NotificationTemplate): string[] {
+  return getTemplateVariables(template).filter((name) => template.defaults?.[name] === undefined);
+}
+
+/**
+ * Fill in a template's placeholders. Returns the names of missing
+ * variables instead if any required one is not supplied.
+ */
+export function renderTemplate(
+  template: NotificationTemplate,
+  variables: Record<string, string | number> = {}
+): { payload: Record<string, unknown> } | { missing: string[] } {
+  const missing = getRequiredTemplateVariables(template).filter((name) => variables[name] === undefined);
+  if (missing.length > 0) {
+    return { missing };
+  }
+
+  const render = (text: string | undefined) =>
+    text?.replace(PLACEHOLDER, (_, name: string) => String(variables[name] ?? template.defaults?.[name]));
+
+  return {
+    payload: {
+      title: render(template.title),
+      body: render(template.body),
+      url: render(template.url),
+      icon: render(template.icon),
+      actions: template.actions?.map((action) => ({
+        action: render(action.action),
+        title: render(action.title),
+        icon: render(action.icon),
+      })),
+    },
+  };
+}
+
+const RenderedPayloadSchema = z.object({ payload: NotificationPayloadSchema });
+
+/**
+ * Turn a validated /api/send body into a request with a payload, rendering
+ * its template if it names one. The rendered payload must pass the same
+ * checks as one sent directly. A localized send's payload is its fallback
+ * variant.
+ */
+export async function resolveSendRequest(
+  appId: string,
+  request: SendNotificationRequest
+): Promise<{ request: RenderedSendRequest } | { error: NextResponse }> {
+  const { payload, templateId, variables, ...rest } = request;
+  if (payload) {
+    return { request: { ...rest, payload } };
+  }
+  if (rest.localized && rest.fallbackLocale) {
+    return { request: { ...rest, payload: rest.localized[rest.fallbackLocale] } };
+  }
+
+  const template = templateId ? await getTemplateById(appId, templateId) : null;
+  if (!template) {
+    return { error: errorResponse('Template not found', ErrorCodes.NOT_FOUND, 404) };
+  }
+
+  const rendered = renderTemplate(template, variables);
+  if ('missing' in rendered) {
+    return {
+      error: errorResponse(
+        `Missing template variables: ${rendered.missing.join(', ')}`,
+        ErrorCodes.VALIDATION_ERROR,
+        422,
+        { missing: rendered.missing }
+      ),
+    };
+  }
+
+  const parseResult = RenderedPayloadSchema.safeParse({ payload: rendered.payload });
+  if (!parseResult.success) {
+    return { error: zodValidationErrorResponse(parseResult.error, { payload: rendered.payload }, 422) };
+  }
+
+  return { request: { ...rest, payload: parseResult.data.payload } };
+}
+
+export function toTemplateResponse(template: NotificationTemplate) {
+  return {
+    id: template.id,
+    name: template.name,
+    title: template.title,
+    body: template.body ?? null,
+    url: template.url ?? null,
+    icon: template.icon ?? null,
+    actions: template.actions ?? null,
+    defaults: template.defaults ?? null,
+    variables: getTemplateVariables(template),
+    requiredVariables: getRequiredTemplateVariables(template),
+    createdAt: template.createdAt.toISOString(),
+    updatedAt: template.updatedAt.toISOString(),
+  };
+}
@@ -1,4 +1,9 @@
 import { z } from 'zod';
+import {
+  VAPID_PRIVATE_KEY_BYTES,
+  isValidVapidPublicKey,
+  vapidKeyPairMatches,
+} from './vapid-keys';
 
 // ============================================================================
 // Database Types
@@ -8,27 +13,63 @@ export interface App {
   id: string;
   name: string;
   ownerWallet: string;
-  apiKey: string;
-  vapidPublicKey: string;
-  vapidPrivateKey: string;
+  vapidPublicKey: string; // public key of the active VAPID key version
+  vapidKeyVersion: number;
   metadata: AppMetadata;
   rateLimit: RateLimitConfig;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export const API_KEY_SCOPES = ['subscribe', 'send', 'read', 'vapid:read'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Secret keys (vp_...) belong on servers. Publishable keys (vp_pub_...) may
+// be embedded in web pages: they are limited to PUBLISHABLE_KEY_SCOPES and
+// only accepted from the app's allowed origins.
+export const API_KEY_TYPES = ['secret', 'publishable'] as const;
+
+export type ApiKeyType = typeof API_KEY_TYPES[number];
+
+export const PUBLISHABLE_KEY_SCOPES: readonly ApiKeyScope[] = ['subscribe', 'vapid:read'];
+
+export interface ApiKey {
+  id: string;
+  appId: string;
+  name: string;
+  type: ApiKeyType;
+  keyPrefix: string; // visible start of the key; the key itself is stored hashed
+  scopes: ApiKeyScope[];
+  createdAt: Date;
+  lastUsedAt?: Date;
+  expiresAt?: Date;
+  replacedBy?: string; // id of the key that replaced this one during rotation
+}
+
 export interface AppMetadata {
   description?: string;
   website?: string;
   iconUrl?: string;
+  allowedOrigins?: string[]; // browser origins allowed to call push endpoints
+  vapidSubject?: string; // contact sent to push services; VAPID_SUBJECT when unset
+  maxDeliveryAttempts?: number; // per push, including retries; DEFAULT_MAX_DELIVERY_ATTEMPTS when unset
 }
 
+// Notification limits count messages, one per recipient, so a broadcast
+// uses as much of them as its audience. Windows slide (lib/rate-limit.ts).
 export interface RateLimitConfig {
   maxNotificationsPerMinute: number;
   maxNotificationsPerDay: number;
   maxSubscriptions: number;
 }
 
+export const DEFAULT_RATE_LIMIT: RateLimitConfig = {
+  maxNotificationsPerMinute: 10000,
+  maxNotificationsPerDay: 100000,
+  maxSubscriptions: 10000,
+};
+
 export interface Subscription {
   id: string;
   appId: string;
@@ -38,14 +79,153 @@ export interface Subscription {
   userId?: string;
   channelId?: string;
   metadata?: Record<string, unknown>;
+  locale?: string; // BCP 47 tag in canonical form, e.g. `pt-BR`
+  vapidKeyVersion: number; // VAPID key version the browser subscribed with
   createdAt: Date;
   expiresAt?: Date;
 }
 
+export type VapidKeyStatus = 'active' | 'retired';
+
+export interface VapidKey {
+  id: string;
+  appId: string;
+  version: number;
+  publicKey: string;
+  encryptedPrivateKey: string; // envelope from lib/vapid-encryption; decrypted only at send time
+  status: VapidKeyStatus;
+  createdAt: Date;
+  retiredAt?: Date;
+}
+
+// Web Push delivery options (RFC 8030)
+export const PUSH_URGENCIES = ['very-low', 'low', 'normal', 'high'] as const;
+export type PushUrgency = typeof PUSH_URGENCIES[number];
+
+export const DEFAULT_PUSH_TTL_SECONDS = 24 * 60 * 60;
+export const MAX_PUSH_TTL_SECONDS = 28 * 24 * 60 * 60; // the longest push services keep messages
+
+export interface PushOptions {
+  ttl: number; // seconds the push service keeps an undelivered message
+  urgency: PushUrgency;
+  topic?: string; // replaces an undelivered message with the same topic
+}
+
+// `scheduled` jobs have no deliveries until their sendAt, when they are
+// queued like any other send; `rejected` ones did not fit the app's
+// notification quota at that time
+export type NotificationJobStatus =
+  | 'scheduled'
+  | 'canceled'
+  | 'rejected'
+  | 'queued'
+  | 'processing'
+  | 'completed';
+
+// Targeting options as sent to /api/send
+export interface NotificationTarget {
+  userId?: string;
+  channelId?: string;
+  subscriptionIds?: string[];
+}
+
+// A send accepted by /api/send. Each recipient gets a row in deliveries,
+// which workers claim and push (lib/notifications.ts).
+export interface NotificationJob {
+  id: string;
+  appId: string;
+  payload: Record<string, unknown>;
+  payloadHash: string; // SHA-256 of the payload's canonical JSON
+  // Per-locale variants of a localized send; `payload` is the fallback's
+  localized?: Record<string, Record<string, unknown>>;
+  fallbackLocale?: string;
+  target: NotificationTarget;
+  apiKeyId?: string; // key that requested the send; unset for dashboard test pushes
+  status: NotificationJobStatus;
+  sendAt?: Date;
+  ttl: number;
+  urgency: PushUrgency;
+  topic?: string;
+  total: number;
+  sent: number;
+  failed: number;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+export type DeliveryStatus = 'pending' | 'sent' | 'failed';
+
+// How a failed push is handled: tried again later (429, 5xx, timeouts),
+// given up on (other 4xx), or the subscription removed (404/410)
+export type PushFailureClass = 'retryable' | 'permanent' | 'gone';
+
+export interface Delivery {
+  id: string;
+  jobId: string;
+  subscriptionId: string;
+  userId?: string; // the subscription's userId when the notification was queued
+  locale?: string; // variant of a localized send that was pushed
+  status: DeliveryStatus;
+  statusCode?: number;
+  error?: string;
+  classification?: PushFailureClass; // of the last failed attempt
+  attempts: number;
+  nextAttemptAt?: Date; // while pending: when the delivery may be claimed again
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface NotificationTemplate {
+  id: string;
+  appId: string;
+  name: string;
+  title: string;
+  body?: string;
+  url?: string;
+  icon?: string;
+  actions?: Array<{ action: string; title: string; icon?: string }>;
+  defaults?: Record<string, string>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Stored result of a request made with an Idempotency-Key. `response` is
+// unset while the first request is still running.
+export interface IdempotencyRecord {
+  appId: string;
+  key: string;
+  requestHash: string;
+  statusCode?: number;
+  response?: unknown;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+// One push to the push service, kept as the delivery's history
+export interface DeliveryAttempt {
+  id: string;
+  deliveryId: string;
+  attempt: number;
+  success: boolean;
+  statusCode?: number;
+  error?: string;
+  classification?: PushFailureClass;
+  createdAt: Date;
+}
+
+export interface AuthSession {
+  id: string;
+  walletAddress: string;
+  chainId: number;
+  createdAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+}
+
 export interface RateLimitLog {
   id: string;
   appId: string;
-  action: 'notification' | 'subscription' | 'broadcast';
+  action: 'notification' | 'notification:day' | 'subscription';
   count: number;
   windowStart: Date;
 }
@@ -106,6 +286,55 @@ const AuthKey = Base64OrBase64UrlString.superRefine((value, ctx) => {
   }
 });
 
+// Refinements still run after a failed transform (value is then z.NEVER),
+// hence the string checks below
+const VapidPublicKey = Base64OrBase64UrlString.superRefine((value, ctx) => {
+  if (typeof value === 'string' && !isValidVapidPublicKey(value)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'publicKey must be an uncompressed P-256 point (65 bytes starting with 0x04)',
+    });
+  }
+});
+
+const VapidPrivateKey = Base64OrBase64UrlString.superRefine((value, ctx) => {
+  if (typeof value !== 'string') return;
+  const byteLength = Buffer.from(value, 'base64url').length;
+  if (byteLength !== VAPID_PRIVATE_KEY_BYTES) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `privateKey must decode to ${VAPID_PRIVATE_KEY_BYTES} bytes`,
+    });
+  }
+});
+
+// An existing VAPID keypair (base64 or base64url, normalized to base64url)
+export const VapidKeyPairSchema = z
+  .object({
+    publicKey: VapidPublicKey,
+    privateKey: VapidPrivateKey,
+  })
+  .superRefine((keys, ctx) => {
+    // Malformed keys were reported above; only compare well-formed ones
+    if (
+      typeof keys.publicKey !== 'string' ||
+      typeof keys.privateKey !== 'string' ||
+      !isValidVapidPublicKey(keys.publicKey) ||
+      Buffer.from(keys.privateKey, 'base64url').length !== VAPID_PRIVATE_KEY_BYTES
+    ) {
+      return;
+    }
+    if (!vapidKeyPairMatches(keys.publicKey, keys.privateKey)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['privateKey'],
+        message: 'privateKey does not match publicKey',
+      });
+    }
+  });
+
+export type VapidKeyPair = z.infer<typeof VapidKeyPairSchema>;
+
 const AbsoluteUrl = z.string().url();
 const AbsoluteUrlOrPath = z.union([
   AbsoluteUrl,
@@ -114,6 +343,49 @@ const AbsoluteUrlOrPath = z.union([
   }),
 ]);
 
+// Origin as sent by browsers: scheme, host and optional port, nothing else
+const Origin = z.string().refine(
+  (value) => {
+    try {
+      const url = new URL(value);
+      return (url.protocol === 'https:' || url.protocol === 'http:') && url.origin === value;
+    } catch {
+      return false;
+    }
+  },
+  { message: 'Must be an origin such as https://example.com (no path or trailing slash)' }
+);
+
+// Contact URI for the VAPID JWT `sub` claim (RFC 8292 section 2.1):
+// a mailto: address or an https: URL
+const VapidSubject = z.string().max(255).refine(
+  (value) => {
+    if (value.startsWith('mailto:')) {
+      return /^mailto:[^\s@?#]+@[^\s@?#]+\.[^\s@?#]+$/.test(value);
+    }
+    try {
+      const url = new URL(value);
+      // Push services reject subjects they cannot reach, such as localhost
+      return url.protocol === 'https:' && url.hostname !== 'localhost';
+    } catch {
+      return false;
+    }
+  },
+  { message: 'Must be a mailto: address or an https: URL, e.g. mailto:ops@example.com' }
+);
+
+export const DEFAULT_MAX_DELIVERY_ATTEMPTS = 5;
+export const MAX_DELIVERY_ATTEMPTS = 10;
+
+const AppMetadataSchema = z.object({
+  description: z.string().max(1000).optional(),
+  website: z.string().url().optional(),
+  iconUrl: z.string().url().optional(),
+  allowedOrigins: z.array(Origin).max(50).optional(),
+  vapidSubject: VapidSubject.optional(),
+  maxDeliveryAttempts: z.number().int().min(1).max(MAX_DELIVERY_ATTEMPTS).optional(),
+});
+
 // ============================================================================
 // API Request/Response Types
 // ============================================================================
@@ -121,24 +393,92 @@ const AbsoluteUrlOrPath = z.union([
 // Register App
 export const RegisterAppSchema = z.object({
   name: z.string().min(1).max(255),
-  metadata: z.object({
-    description: z.string().max(1000).optional(),
-    website: z.string().url().optional(),
-    iconUrl: z.string().url().optional(),
-  }).optional(),
+  metadata: AppMetadataSchema.optional(),
+  // Bring your own keypair (e.g. to keep existing subscriptions working);
+  // a new one is generated when omitted
+  vapidKeys: VapidKeyPairSchema.optional(),
 });
 
 export type RegisterAppRequest = z.infer<typeof RegisterAppSchema>;
 
+// Update App
+export const UpdateAppSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  metadata: AppMetadataSchema.optional(),
+});
+
+export type UpdateAppRequest = z.infer<typeof UpdateAppSchema>;
+
+// Replace an app's VAPID keypair
+export const UpdateVapidKeysSchema = z.object({
+  vapidKeys: VapidKeyPairSchema,
+});
+
 export interface RegisterAppResponse {
   id: string;
   name: string;
-  apiKey: string;
+  apiKey: string; // only returned here and from regenerate-key
+  apiKeyId: string;
+  apiKeyPrefix: string;
   vapidPublicKey: string;
+  vapidKeyVersion: number;
   createdAt: string;
 }
 
+// API Keys
+export const CreateApiKeySchema = z.object({
+  name: z.string().min(1).max(255),
+  type: z.enum(API_KEY_TYPES).default('secret'),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  expiresAt: z.string().datetime().optional(),
+}).superRefine((value, ctx) => {
+  if (value.type !== 'publishable') return;
+  value.scopes.forEach((scope, index) => {
+    if (!PUBLISHABLE_KEY_SCOPES.includes(scope)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['scopes', index],
+        message: `Publishable keys cannot have the '${scope}' scope`,
+      });
+    }
+  });
+});
+
+export type CreateApiKeyRequest = z.infer<typeof CreateApiKeySchema>;
+
+export const UpdateApiKeySchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1).optional(),
+  expiresAt: z.string().datetime().nullable().optional(),
+});
+
+export type UpdateApiKeyRequest = z.infer<typeof UpdateApiKeySchema>;
+
+// How long a rotated key keeps working next to its replacement
+export const DEFAULT_KEY_ROTATION_GRACE_SECONDS = 24 * 60 * 60;
+export const MAX_KEY_ROTATION_GRACE_SECONDS = 30 * 24 * 60 * 60;
+
+export const RegenerateApiKeySchema = z.object({
+  keyId: z.string().uuid().optional(),
+  gracePeriodSeconds: z
+    .number()
+    .int()
+    .min(0)
+    .max(MAX_KEY_ROTATION_GRACE_SECONDS)
+    .default(DEFAULT_KEY_ROTATION_GRACE_SECONDS),
+});
+
 // Subscribe
+// BCP 47 language tag, canonicalized (`en-us` -> `en-US`) so tags compare equal
+const LocaleTag = z.string().max(35).transform((value, ctx) => {
+  try {
+    return Intl.getCanonicalLocales(value)[0];
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Must be a BCP 47 language tag' });
+    return z.NEVER;
+  }
+});
+
 export const SubscribeSchema = z.object({
   endpoint: z.string().url(),
   keys: z.object({
@@ -148,11 +488,27 @@ export const SubscribeSchema = z.object({
   userId: z.string().max(255).optional(),
   channelId: z.string().max(255).optional(),
   metadata: z.record(z.unknown()).optional(),
+  // Picks the variant of localized sends, e.g. `navigator.language`
+  locale: LocaleTag.optional(),
   expirationTime: z.number().nullable().optional(),
+  // `version` from /api/vapid/public-key the browser subscribed with
+  // (defaults to the app's active version)
+  vapidKeyVersion: z.number().int().positive().optional(),
 });
 
 export type SubscribeRequest = z.infer<typeof SubscribeSchema>;
 
+// Takes `PushSubscription.toJSON()` as is. The `auth` secret proves the
+// caller holds the subscription: knowing an endpoint is not enough.
+export const UnsubscribeSchema = z.object({
+  endpoint: z.string().url(),
+  keys: z.object({
+    auth: AuthKey,
+  }),
+});
+
+export type UnsubscribeRequest = z.infer<typeof UnsubscribeSchema>;
+
 export interface SubscribeResponse {
   id: string;
   endpoint: string;
@@ -160,32 +516,117 @@ export interface SubscribeResponse {
 }
 
 // Send Notification
+// Notifications can be scheduled up to a year ahead
+export const MAX_SCHEDULE_AHEAD_DAYS = 365;
+
+const SendAt = z
+  .string()
+  .datetime({ offset: true, message: 'Must be an ISO 8601 timestamp' })
+  .refine((value) => Date.parse(value) > Date.now(), 'Must be in the future')
+  .refine(
+    (value) => Date.parse(value) <= Date.now() + MAX_SCHEDULE_AHEAD_DAYS * 24 * 60 * 60 * 1000,
+    `Must be within ${MAX_SCHEDULE_AHEAD_DAYS} days`
+  );
+
+const NotificationActionSchema = z.object({
+  action: z.string(),
+  title: z.string(),
+  icon: z.string().optional(),
+});
+
+export const NotificationPayloadSchema = z.object({
+  title: z.string().min(1).max(255),
+  body: z.string().max(1000).optional(),
+  icon: AbsoluteUrlOrPath.optional(),
+  badge: AbsoluteUrlOrPath.optional(),
+  image: AbsoluteUrlOrPath.optional(),
+  url: AbsoluteUrlOrPath.optional(),
+  data: z.record(z.unknown()).optional(),
+  actions: z.array(NotificationActionSchema).optional(),
+  tag: z.string().optional(),
+  requireInteraction: z.boolean().optional(),
+  silent: z.boolean().optional(),
+});
+
+export type NotificationPayload = z.infer<typeof NotificationPayloadSchema>;
+
+// Localized sends carry at most this many variants
+export const MAX_LOCALIZED_VARIANTS = 50;
+
 export const SendNotificationSchema = z.object({
-  payload: z.object({
-    title: z.string().min(1).max(255),
-    body: z.string().max(1000).optional(),
-    icon: AbsoluteUrlOrPath.optional(),
-    badge: AbsoluteUrlOrPath.optional(),
-    image: AbsoluteUrlOrPath.optional(),
-    url: AbsoluteUrlOrPath.optional(),
-    data: z.record(z.unknown()).optional(),
-    actions: z.array(z.object({
-      action: z.string(),
-      title: z.string(),
-      icon: z.string().optional(),
-    })).optional(),
-    tag: z.string().optional(),
-    requireInteraction: z.boolean().optional(),
-    silent: z.boolean().optional(),
-  }),
+  // One of: a payload, per-locale payloads, or a template to render
+  payload: NotificationPayloadSchema.optional(),
+  localized: z
+    .record(LocaleTag, NotificationPayloadSchema)
+    .refine(
+      (value) => Object.keys(value).length <= MAX_LOCALIZED_VARIANTS,
+      `At most ${MAX_LOCALIZED_VARIANTS} locales allowed`
+    )
+    .optional(),
+  // Variant for subscribers whose locale matches none of `localized`
+  fallbackLocale: LocaleTag.optional(),
+  templateId: z.string().uuid().optional(),
+  variables: z.record(z.union([z.string().max(1000), z.number()])).optional(),
   // Targeting options (optional - if none, sends to all)
   userId: z.string().optional(),
   channelId: z.string().optional(),
   subscriptionIds: z.array(z.string()).optional(),
+  // Delivery options; default to DEFAULT_PUSH_TTL_SECONDS and 'normal'
+  ttl: z.number().int().min(0).max(MAX_PUSH_TTL_SECONDS).optional(),
+  urgency: z.enum(PUSH_URGENCIES).optional(),
+  topic: z
+    .string()
+    .regex(/^[A-Za-z0-9_-]{1,32}$/, 'Must be 1-32 URL-safe base64 characters (A-Z, a-z, 0-9, - and _)')
+    .optional(),
+  // Store the notification and send it at this time instead of now
+  sendAt: SendAt.optional(),
+}).superRefine((value, ctx) => {
+  const contents = [value.payload, value.localized, value.templateId].filter(Boolean).length;
+  if (contents !== 1) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: value.templateId ? ['templateId'] : value.localized ? ['localized'] : ['payload'],
+      message: 'Provide exactly one of payload, localized or templateId',
+    });
+  }
+  if (value.localized && (!value.fallbackLocale || !value.localized[value.fallbackLocale])) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['fallbackLocale'],
+      message: 'Must be one of the locales in localized',
+    });
+  }
+  if (value.fallbackLocale && !value.localized) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['fallbackLocale'],
+      message: 'fallbackLocale can only be used with localized',
+    });
+  }
+  if (value.variables && !value.templateId) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['variables'],
+      message: 'variables can only be used with templateId',
+    });
+  }
 });
 
 export type SendNotificationRequest = z.infer<typeof SendNotificationSchema>;
 
+// A send request with its template, if any, rendered into `payload`. For
+// a localized send, `payload` is the fallback locale's variant.
+export type RenderedSendRequest = Omit<SendNotificationRequest, 'payload' | 'templateId' | 'variables'> & {
+  payload: NotificationPayload;
+};
+
+// PATCH /api/notifications/scheduled/[id]
+export const RescheduleNotificationSchema = z.object({
+  sendAt: SendAt,
+});
+
+export type RescheduleNotificationRequest = z.infer<typeof RescheduleNotificationSchema>;
+
 export interface SendNotificationResponse {
   sent: number;
   failed: number;
@@ -196,6 +637,100 @@ export interface SendNotificationResponse {
   }>;
 }
 
+// Query parameters of GET /api/notifications
+export const ListNotificationsQuerySchema = z.object({
+  since: z.string().datetime({ offset: true }).optional(),
+  cursor: z.string().max(200).optional(),
+  userId: z.string().min(1).max(255).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Query parameters of GET /api/notifications/scheduled
+export const ListScheduledNotificationsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Push services told apart by endpoint host: one of these hosts or a
+// subdomain of it
+export const PUSH_SERVICE_HOSTS = {
+  fcm: ['fcm.googleapis.com', 'android.googleapis.com'],
+  mozilla: ['push.services.mozilla.com'],
+  apple: ['push.apple.com'],
+  wns: ['notify.windows.com'],
+} as const;
+
+export type PushService = keyof typeof PUSH_SERVICE_HOSTS;
+
+// Query parameters of GET /api/subscriptions. The route collects
+// `metadata.<key>=<value>` parameters into `metadata`.
+export const ListSubscriptionsQuerySchema = z.object({
+  userId: z.string().min(1).max(255).optional(),
+  channelId: z.string().min(1).max(255).optional(),
+  metadata: z
+    .record(z.string().min(1).max(255), z.string().max(1000))
+    .refine((value) => Object.keys(value).length <= 10, 'At most 10 metadata filters')
+    .optional(),
+  pushService: z.enum(['fcm', 'mozilla', 'apple', 'wns']).optional(),
+  createdAfter: z.string().datetime({ offset: true }).optional(),
+  createdBefore: z.string().datetime({ offset: true }).optional(),
+  cursor: z.string().max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+});
+
+// Query parameters of GET /api/notifications/[id]
+export const NotificationDeliveriesQuerySchema = z.object({
+  userId: z.string().min(1).max(255).optional(),
+  subscriptionId: z.string().uuid().optional(),
+  status: z.enum(['pending', 'sent', 'failed']).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Notification templates. Text fields may contain `{{variable}}`
+// placeholders; URLs are only checked once rendered.
+const TemplateText = z.string().max(2048);
+
+export const CreateTemplateSchema = z.object({
+  name: z.string().min(1).max(255),
+  title: z.string().min(1).max(255),
+  body: z.string().max(1000).optional(),
+  url: TemplateText.optional(),
+  icon: TemplateText.optional(),
+  actions: z.array(NotificationActionSchema).max(10).optional(),
+  // Values for variables that a send may leave out
+  defaults: z.record(z.string().max(1000)).optional(),
+});
+
+export type CreateTemplateRequest = z.infer<typeof CreateTemplateSchema>;
+
+// null clears an optional field
+export const UpdateTemplateSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  title: z.string().min(1).max(255).optional(),
+  body: z.string().max(1000).nullable().optional(),
+  url: TemplateText.nullable().optional(),
+  icon: TemplateText.nullable().optional(),
+  actions: z.array(NotificationActionSchema).max(10).nullable().optional(),
+  defaults: z.record(z.string().max(1000)).nullable().optional(),
+});
+
+export type UpdateTemplateRequest = z.infer<typeof UpdateTemplateSchema>;
+
+// Sign-In With Ethereum
+export const SiweVerifySchema = z.object({
+  message: z.string().min(1).max(4096),
+  signature: z.string().regex(/^0x[0-9a-fA-F]+$/, 'Must be a 0x-prefixed hex signature'),
+});
+
+export type SiweVerifyRequest = z.infer<typeof SiweVerifySchema>;
+
+export interface SiweVerifyResponse {
+  address: string;
+  token: string;
+  expiresAt: string;
+}
+
 // Generic API Response
 export interface ApiResponse<T = unknown> {
   success: boolean;
@@ -228,6 +763,11 @@ export const ErrorCodes = {
   APP_NOT_FOUND: 'APP_NOT_FOUND',
   SUBSCRIPTION_NOT_FOUND: 'SUBSCRIPTION_NOT_FOUND',
   PUSH_FAILED: 'PUSH_FAILED',
+  VAPID_KEY_IN_USE: 'VAPID_KEY_IN_USE',
+  NOTIFICATION_NOT_SCHEDULED: 'NOTIFICATION_NOT_SCHEDULED',
+  IDEMPOTENCY_KEY_REUSED: 'IDEMPOTENCY_KEY_REUSED',
+  IDEMPOTENCY_KEY_IN_PROGRESS: 'IDEMPOTENCY_KEY_IN_PROGRESS',
+  QUOTA_EXCEEDED: 'QUOTA_EXCEEDED',
 } as const;
 
 export type ErrorCode = typeof ErrorCodes[keyof typeof ErrorCodes];
@@ -0,0 +1,155 @@
+/**
+ * Envelope encryption for VAPID private keys
+ *
+ * Each private key is encrypted (AES-256-GCM) with its own random data
+ * key, and the data key is in turn encrypted with the master key from
+ * `VAPID_MASTER_KEY`. Rotating the master key only re-wraps the data keys
+ * (see scripts/rewrap-vapid-keys.ts); keys wrapped by an older master key
+ * stay readable while `VAPID_MASTER_KEY_PREVIOUS` lists it.
+ *
+ * Stored format: `enc:v1:<masterKeyId>:<wrappedDataKey>:<encryptedPrivateKey>`
+ * where the last two parts are base64url(iv || ciphertext || tag).
+ */
+
+import crypto from 'crypto';
+
+const ENVELOPE_PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+// Accepts 32 bytes as 64 hex characters or base64
+function parseMasterKey(value: string, name: string): MasterKey {
+  const trimmed = value.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(trimmed)
+    ? Buffer.from(trimmed, 'hex')
+    : Buffer.from(trimmed, 'base64');
+
+  if (key.length !== 32) {
+    throw new Error(`${name} must be 32 bytes (64 hex characters or base64)`);
+  }
+
+  const id = crypto.createHash('sha256').update(key).digest('hex').slice(0, 16);
+  return { id, key };
+}
+
+function getCurrentMasterKey(): MasterKey {
+  const value = process.env.VAPID_MASTER_KEY;
+  if (!value) {
+    throw new Error('VAPID_MASTER_KEY is not configured');
+  }
+  return parseMasterKey(value, 'VAPID_MASTER_KEY');
+}
+
+function getMasterKeyById(id: string): MasterKey {
+  const current = getCurrentMasterKey();
+  if (current.id === id) return current;
+
+  const previous = (process.env.VAPID_MASTER_KEY_PREVIOUS || '')
+    .split(',')
+    .filter((value) => value.trim())
+    .map((value) => parseMasterKey(value, 'VAPID_MASTER_KEY_PREVIOUS'));
+
+  const match = previous.find((key) => key.id === id);
+  if (!match) {
+    throw new Error(`No master key configured for VAPID key id ${id}`);
+  }
+  return match;
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]).toString('base64url');
+}
+
+function open(key: Buffer, sealed: string, aad: string): Buffer {
+  const bytes = Buffer.from(sealed, 'base64url');
+  const iv = bytes.subarray(0, IV_LENGTH);
+  const tag = bytes.subarray(bytes.length - TAG_LENGTH);
+  const ciphertext = bytes.subarray(IV_LENGTH, bytes.length - TAG_LENGTH);
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function parseEnvelope(envelope: string): {
+  masterKeyId: string;
+  wrappedDataKey: string;
+  encryptedPrivateKey: string;
+} {
+  if (!envelope.startsWith(ENVELOPE_PREFIX)) {
+    throw new Error('VAPID private key is not encrypted; run npm run db:migrate');
+  }
+  const [masterKeyId, wrappedDataKey, encryptedPrivateKey] = envelope
+    .slice(ENVELOPE_PREFIX.length)
+    .split(':');
+  if (!masterKeyId || !wrappedDataKey || !encryptedPrivateKey) {
+    throw new Error('Malformed encrypted VAPID private key');
+  }
+  return { masterKeyId, wrappedDataKey, encryptedPrivateKey };
+}
+
+// The data key is bound to the master key id and the private key to its
+// app, so envelopes cannot be swapped between rows
+function dataKeyAad(masterKeyId: string): string {
+  return `vapid-data-key:${masterKeyId}`;
+}
+
+function privateKeyAad(appId: string): string {
+  return `vapid-private-key:${appId}`;
+}
+
+export function isEncryptedVapidPrivateKey(value: string): boolean {
+  return value.startsWith(ENVELOPE_PREFIX);
+}
+
+// Throws unless VAPID_MASTER_KEY is set to a valid key. Checked at startup
+// and by migrations, so a missing key is caught before any app is created.
+export function assertVapidEncryptionConfigured(): void {
+  getCurrentMasterKey();
+}
+
+export function encryptVapidPrivateKey(privateKey: string, appId: string): string {
+  const masterKey = getCurrentMasterKey();
+  const dataKey = crypto.randomBytes(32);
+
+  const wrappedDataKey = seal(masterKey.key, dataKey, dataKeyAad(masterKey.id));
+  const encryptedPrivateKey = seal(dataKey, Buffer.from(privateKey, 'utf8'), privateKeyAad(appId));
+
+  return `${ENVELOPE_PREFIX}${masterKey.id}:${wrappedDataKey}:${encryptedPrivateKey}`;
+}
+
+export function decryptVapidPrivateKey(envelope: string, appId: string): string {
+  const { masterKeyId, wrappedDataKey, encryptedPrivateKey } = parseEnvelope(envelope);
+  const masterKey = getMasterKeyById(masterKeyId);
+
+  const dataKey = open(masterKey.key, wrappedDataKey, dataKeyAad(masterKeyId));
+  return open(dataKey, encryptedPrivateKey, privateKeyAad(appId)).toString('utf8');
+}
+
+// True when the envelope was wrapped by a master key other than the current one
+export function needsRewrap(envelope: string): boolean {
+  return parseEnvelope(envelope).masterKeyId !== getCurrentMasterKey().id;
+}
+
+// Re-wrap the data key with the current master key. The encrypted private
+// key itself is left untouched.
+export function rewrapVapidPrivateKey(envelope: string): string {
+  const { masterKeyId, wrappedDataKey, encryptedPrivateKey } = parseEnvelope(envelope);
+  const oldMasterKey = getMasterKeyById(masterKeyId);
+  const newMasterKey = getCurrentMasterKey();
+
+  const dataKey = open(oldMasterKey.key, wrappedDataKey, dataKeyAad(masterKeyId));
+  const rewrapped = seal(newMasterKey.key, dataKey, dataKeyAad(newMasterKey.id));
+
+  return `${ENVELOPE_PREFIX}${newMasterKey.id}:${rewrapped}:${encryptedPrivateKey}`;
+}
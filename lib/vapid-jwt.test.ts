@@ -0,0 +1,177 @@
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import webPush from 'web-push';
+import { closeDatabase, createApp, createSubscription } from './db';
+import { sendNotifications } from './notifications';
+import { getVapidAuthorization, type VapidDetails } from './vapid-jwt';
+
+// web-push only speaks https; this agent hands it plain TCP sockets so the
+// mock push service can be an ordinary http server
+class PlainTextAgent extends https.Agent {
+  createConnection(options: net.NetConnectOpts): net.Socket {
+    return net.connect(options);
+  }
+}
+
+function createVapidDetails(): VapidDetails {
+  return { subject: 'mailto:ops@example.com', ...webPush.generateVAPIDKeys() };
+}
+
+function createSubscriptionKeys() {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    p256dh: ecdh.getPublicKey().toString('base64url'),
+    auth: crypto.randomBytes(16).toString('base64url'),
+  };
+}
+
+// Split `vapid t=<jwt>, k=<key>` and check the JWT's ES256 signature
+// against `k`
+function parseVapidAuthorization(header: string) {
+  const match = /^vapid t=([^,\s]+), k=([^,\s]+)$/.exec(header);
+  assert.ok(match, `unexpected Authorization header: ${header}`);
+  const [, token, publicKey] = match;
+
+  const point = Buffer.from(publicKey, 'base64url');
+  const key = crypto.createPublicKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: point.subarray(1, 33).toString('base64url'),
+      y: point.subarray(33, 65).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+
+  const [headerB64, payloadB64, signature] = token.split('.');
+  const valid = crypto.verify(
+    'sha256',
+    Buffer.from(`${headerB64}.${payloadB64}`),
+    { key, dsaEncoding: 'ieee-p1363' },
+    Buffer.from(signature, 'base64url')
+  );
+
+  return {
+    publicKey,
+    valid,
+    claims: JSON.parse(Buffer.from(payloadB64, 'base64url').toString()) as { aud: string; exp: number },
+  };
+}
+
+describe('getVapidAuthorization', () => {
+  const origin = 'https://push.example.com';
+
+  it('reuses the cached header until it is due for refresh', (t) => {
+    t.mock.timers.enable({ apis: ['Date'], now: Date.now() });
+    const vapid = createVapidDetails();
+    const endpoint = `${origin}/app-a/0`;
+
+    const first = getVapidAuthorization('app-a', vapid, endpoint);
+    const { claims } = parseVapidAuthorization(first);
+
+    t.mock.timers.tick(11 * 60 * 60 * 1000);
+    assert.equal(getVapidAuthorization('app-a', vapid, endpoint), first);
+
+    // Inside the 10 minutes before the token expires
+    t.mock.timers.tick(55 * 60 * 1000);
+    const refreshed = getVapidAuthorization('app-a', vapid, endpoint);
+    assert.notEqual(refreshed, first);
+    assert.ok(parseVapidAuthorization(refreshed).claims.exp > claims.exp);
+
+    assert.equal(getVapidAuthorization('app-a', vapid, endpoint), refreshed);
+
+    // Long after the refreshed token expired
+    t.mock.timers.tick(13 * 60 * 60 * 1000);
+    const renewed = getVapidAuthorization('app-a', vapid, endpoint);
+    assert.notEqual(renewed, refreshed);
+    assert.ok(parseVapidAuthorization(renewed).claims.exp > Math.floor(Date.now() / 1000));
+  });
+
+  it('signs separately per push service and per key', () => {
+    const vapid = createVapidDetails();
+    const header = getVapidAuthorization('app-b', vapid, 'https://fcm.googleapis.com/fcm/send/a');
+
+    assert.equal(getVapidAuthorization('app-b', vapid, 'https://fcm.googleapis.com/fcm/send/b'), header);
+    assert.notEqual(getVapidAuthorization('app-b', vapid, 'https://web.push.apple.com/c'), header);
+
+    const rotated = createVapidDetails();
+    const rotatedHeader = getVapidAuthorization('app-b', rotated, 'https://fcm.googleapis.com/fcm/send/a');
+    assert.equal(parseVapidAuthorization(rotatedHeader).publicKey, rotated.publicKey);
+  });
+});
+
+// Drives broadcasts through sendNotifications, so this needs a database
+describe('sendNotifications', { skip: !process.env.POSTGRES_URL && 'POSTGRES_URL is not set' }, () => {
+  const received: Array<{ path: string; authorization: string }> = [];
+  const defaultAgent = https.globalAgent;
+  let server: http.Server;
+  let origin: string;
+
+  before(async () => {
+    process.env.VAPID_MASTER_KEY ??= crypto.randomBytes(32).toString('hex');
+
+    server = http.createServer((request, response) => {
+      received.push({ path: request.url ?? '', authorization: request.headers.authorization ?? '' });
+      request.resume();
+      request.on('end', () => {
+        response.statusCode = 201;
+        response.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    origin = `https://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    // sendToSubscription passes no agent, so web-push uses the global one
+    https.globalAgent = new PlainTextAgent({ keepAlive: true });
+  });
+
+  after(async () => {
+    https.globalAgent.destroy();
+    https.globalAgent = defaultAgent;
+    server.close();
+    await closeDatabase();
+  });
+
+  it('signs concurrent broadcasts of two apps with each app\'s own key', async () => {
+    const owner = '0x' + crypto.randomBytes(20).toString('hex');
+    const apps = await Promise.all(['A', 'B'].map(async (name) => (await createApp(owner, `Broadcast ${name}`)).app));
+    const subscribersPerApp = 25;
+
+    for (const app of apps) {
+      for (let i = 0; i < subscribersPerApp; i++) {
+        const { p256dh, auth } = createSubscriptionKeys();
+        await createSubscription(app.id, `${origin}/${app.id}/${i}`, p256dh, auth);
+      }
+    }
+
+    const results = await Promise.all(apps.map((app) =>
+      sendNotifications(app, { payload: { title: `Hello from ${app.name}` } })
+    ));
+
+    for (const result of results) {
+      assert.equal(result?.sent, subscribersPerApp);
+    }
+    assert.equal(received.length, apps.length * subscribersPerApp);
+
+    for (const app of apps) {
+      const requests = received.filter((request) => request.path.startsWith(`/${app.id}/`));
+      assert.equal(requests.length, subscribersPerApp);
+
+      for (const request of requests) {
+        const { publicKey, valid, claims } = parseVapidAuthorization(request.authorization);
+        assert.equal(publicKey, app.vapidPublicKey);
+        assert.ok(valid, 'JWT is not signed with the app\'s key');
+        assert.equal(claims.aud, origin);
+      }
+
+      // One push service, so the whole broadcast shares one signed header
+      assert.equal(new Set(requests.map((request) => request.authorization)).size, 1);
+    }
+  });
+});
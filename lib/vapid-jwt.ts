@@ -0,0 +1,71 @@
+/**
+ * Per-request VAPID authorization
+ *
+ * web-push's `setVapidDetails` stores keys on the shared module, so two
+ * apps sending at the same time could sign with each other's keys. Sends
+ * instead pass a ready-made `Authorization` header per request.
+ *
+ * A VAPID JWT is bound to one audience (the push service origin), so the
+ * signed header is cached per app key, subject and audience and re-signed
+ * shortly before it expires. A broadcast then signs once per push service
+ * instead of once per subscription.
+ */
+
+import webPush from 'web-push';
+
+export interface VapidDetails {
+  subject: string;
+  publicKey: string;
+  privateKey: string;
+}
+
+// Push services reject tokens valid for more than 24 hours
+const TOKEN_LIFETIME_SECONDS = 12 * 60 * 60;
+const REFRESH_BEFORE_EXPIRY_SECONDS = 10 * 60;
+const MAX_CACHED_TOKENS = 10_000;
+
+interface CachedAuthorization {
+  header: string;
+  expiresAt: number; // unix seconds
+}
+
+const authorizationCache = new Map<string, CachedAuthorization>();
+
+/**
+ * `Authorization` header for a push to `endpoint`, signed with the given
+ * app's VAPID key
+ */
+export function getVapidAuthorization(
+  appId: string,
+  vapid: VapidDetails,
+  endpoint: string
+): string {
+  const audience = new URL(endpoint).origin;
+  const cacheKey = [appId, vapid.publicKey, vapid.subject, audience].join('|');
+  const now = Math.floor(Date.now() / 1000);
+
+  const cached = authorizationCache.get(cacheKey);
+  if (cached && cached.expiresAt - REFRESH_BEFORE_EXPIRY_SECONDS > now) {
+    return cached.header;
+  }
+
+  const expiresAt = now + TOKEN_LIFETIME_SECONDS;
+  const { Authorization } = webPush.getVapidHeaders(
+    audience,
+    vapid.subject,
+    vapid.publicKey,
+    vapid.privateKey,
+    'aes128gcm',
+    expiresAt
+  );
+
+  authorizationCache.delete(cacheKey);
+  if (authorizationCache.size >= MAX_CACHED_TOKENS) {
+    // Maps iterate in insertion order, so this evicts the oldest token
+    const oldest = authorizationCache.keys().next().value;
+    if (oldest !== undefined) authorizationCache.delete(oldest);
+  }
+  authorizationCache.set(cacheKey, { header: Authorization, expiresAt });
+
+  return Authorization;
+}
@@ -0,0 +1,52 @@
+/**
+ * VAPID keypair helpers
+ *
+ * VAPID keys are P-256 (prime256v1) keys encoded as base64url: the public
+ * key as a 65-byte uncompressed point, the private key as the 32-byte
+ * scalar. This is the format `web-push` generates and browsers expect as
+ * `applicationServerKey`.
+ */
+
+import crypto from 'crypto';
+
+export const VAPID_PUBLIC_KEY_BYTES = 65;
+export const VAPID_PRIVATE_KEY_BYTES = 32;
+
+/**
+ * Derive the public key for a base64url private key, or null if the
+ * private key is not a valid P-256 scalar
+ */
+export function deriveVapidPublicKey(privateKey: string): string | null {
+  try {
+    const ecdh = crypto.createECDH('prime256v1');
+    ecdh.setPrivateKey(Buffer.from(privateKey, 'base64url'));
+    return ecdh.getPublicKey().toString('base64url');
+  } catch {
+    return null;
+  }
+}
+
+// True if the uncompressed point is on the P-256 curve
+export function isValidVapidPublicKey(publicKey: string): boolean {
+  const bytes = Buffer.from(publicKey, 'base64url');
+  if (bytes.length !== VAPID_PUBLIC_KEY_BYTES || bytes[0] !== 0x04) return false;
+
+  try {
+    crypto.createPublicKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        x: bytes.subarray(1, 33).toString('base64url'),
+        y: bytes.subarray(33).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function vapidKeyPairMatches(publicKey: string, privateKey: string): boolean {
+  return deriveVapidPublicKey(privateKey) === publicKey;
+}
@@ -2,6 +2,8 @@
 const nextConfig = {
   reactStrictMode: true,
   experimental: {
+    // instrumentation.ts drains the delivery queue under `next dev`
+    instrumentationHook: true,
     serverActions: {
       allowedOrigins: ['localhost:3000', 'vapid.party']
     }
@@ -9,6 +9,8 @@
  */
 
 import postgres from 'postgres';
+import { getApiKeyPrefix, hashApiKey } from '../lib/api-keys';
+import { assertVapidEncryptionConfigured, encryptVapidPrivateKey } from '../lib/vapid-encryption';
 
 const connectionString = process.env.POSTGRES_URL || process.env.DATABASE_URL || '';
 
@@ -18,6 +20,14 @@ if (!connectionString) {
   process.exit(1);
 }
 
+try {
+  assertVapidEncryptionConfigured();
+} catch (error) {
+  console.error(`❌ ${(error as Error).message}.`);
+  console.error('   VAPID private keys are stored encrypted; set VAPID_MASTER_KEY (openssl rand -hex 32).');
+  process.exit(1);
+}
+
 const sql = postgres(connectionString, {
   ssl: 'require',
   max: 1,
@@ -34,11 +44,12 @@ async function migrate() {
         id UUID PRIMARY KEY,
         name VARCHAR(255) NOT NULL,
         owner_wallet VARCHAR(42) NOT NULL,
-        api_key VARCHAR(64) UNIQUE NOT NULL,
+        api_key VARCHAR(64) UNIQUE,
         vapid_public_key TEXT NOT NULL,
-        vapid_private_key TEXT NOT NULL,
+        vapid_private_key TEXT,
+        vapid_key_version INTEGER NOT NULL DEFAULT 1,
         metadata JSONB DEFAULT '{}',
-        rate_limit JSONB DEFAULT '{"maxNotificationsPerMinute": 60, "maxNotificationsPerDay": 10000, "maxSubscriptions": 10000}',
+        rate_limit JSONB DEFAULT '{"maxNotificationsPerMinute": 10000, "maxNotificationsPerDay": 100000, "maxSubscriptions": 10000}',
         created_at TIMESTAMPTZ DEFAULT NOW(),
         updated_at TIMESTAMPTZ DEFAULT NOW()
       )
@@ -55,6 +66,77 @@ async function migrate() {
     `;
     console.log('✓ apps indexes ready');
 
+    // Notification limits now count messages instead of /api/send calls
+    console.log('Updating default notification limits...');
+    await sql`
+      ALTER TABLE apps ALTER COLUMN rate_limit
+      SET DEFAULT '{"maxNotificationsPerMinute": 10000, "maxNotificationsPerDay": 100000, "maxSubscriptions": 10000}'
+    `;
+    const updatedLimits = await sql`
+      UPDATE apps SET rate_limit = '{"maxNotificationsPerMinute": 10000, "maxNotificationsPerDay": 100000, "maxSubscriptions": 10000}'
+      WHERE rate_limit = '{"maxNotificationsPerMinute": 60, "maxNotificationsPerDay": 10000, "maxSubscriptions": 10000}'
+    `;
+    console.log(`✓ ${updatedLimits.count} app(s) moved to the per-message notification limits`);
+
+    // Hash API keys at rest (one-time, in place)
+    console.log('Hashing plaintext API keys...');
+    await sql`
+      ALTER TABLE apps ADD COLUMN IF NOT EXISTS api_key_prefix VARCHAR(16)
+    `;
+    const plaintextKeys = await sql`
+      SELECT id, api_key FROM apps WHERE api_key LIKE 'vp_%'
+    `;
+    for (const row of plaintextKeys) {
+      const apiKey = row.api_key as string;
+      await sql`
+        UPDATE apps
+        SET api_key = ${hashApiKey(apiKey)}, api_key_prefix = ${getApiKeyPrefix(apiKey)}
+        WHERE id = ${row.id as string} AND api_key = ${apiKey}
+      `;
+    }
+    console.log(`✓ ${plaintextKeys.length} API key(s) hashed`);
+
+    // Named, scoped API keys (many per app)
+    console.log('Creating api_keys table...');
+    await sql`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id UUID PRIMARY KEY,
+        app_id UUID NOT NULL REFERENCES apps(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        key_hash VARCHAR(64) UNIQUE NOT NULL,
+        key_prefix VARCHAR(16) NOT NULL,
+        type VARCHAR(16) NOT NULL DEFAULT 'secret',
+        scopes TEXT[] NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        last_used_at TIMESTAMPTZ,
+        expires_at TIMESTAMPTZ
+      )
+    `;
+    await sql`
+      ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS type VARCHAR(16) NOT NULL DEFAULT 'secret'
+    `;
+    await sql`
+      ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS replaced_by UUID REFERENCES api_keys(id) ON DELETE SET NULL
+    `;
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_api_keys_app_id ON api_keys(app_id)
+    `;
+    await sql`
+      ALTER TABLE apps ALTER COLUMN api_key DROP NOT NULL
+    `;
+    const movedKeys = await sql`
+      INSERT INTO api_keys (id, app_id, name, key_hash, key_prefix, scopes, created_at)
+      SELECT gen_random_uuid(), id, 'Default', api_key, COALESCE(api_key_prefix, 'vp_'), ${sql.array(['subscribe', 'send', 'read', 'vapid:read'])}, created_at
+      FROM apps
+      WHERE api_key IS NOT NULL
+      ON CONFLICT (key_hash) DO NOTHING
+      RETURNING id
+    `;
+    await sql`
+      UPDATE apps SET api_key = NULL, api_key_prefix = NULL WHERE api_key IS NOT NULL
+    `;
+    console.log(`✓ api_keys table ready (${movedKeys.length} legacy key(s) moved)`);
+
     // Subscriptions table with userId/channelId support
     console.log('Creating subscriptions table...');
     await sql`
@@ -85,8 +167,218 @@ async function migrate() {
     await sql`
       CREATE INDEX IF NOT EXISTS idx_subscriptions_channel_id ON subscriptions(app_id, channel_id)
     `;
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_subscriptions_app_created ON subscriptions(app_id, created_at, id)
+    `;
     console.log('✓ subscriptions indexes ready');
 
+    // Versioned VAPID keypairs; each app's existing keypair becomes version 1
+    console.log('Creating vapid_keys table...');
+    await sql`
+      CREATE TABLE IF NOT EXISTS vapid_keys (
+        id UUID PRIMARY KEY,
+        app_id UUID NOT NULL REFERENCES apps(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        public_key TEXT NOT NULL,
+        private_key TEXT NOT NULL,
+        status VARCHAR(16) NOT NULL DEFAULT 'active',
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        retired_at TIMESTAMPTZ,
+        UNIQUE(app_id, version)
+      )
+    `;
+    await sql`
+      ALTER TABLE apps ADD COLUMN IF NOT EXISTS vapid_key_version INTEGER NOT NULL DEFAULT 1
+    `;
+    await sql`
+      ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS vapid_key_version INTEGER NOT NULL DEFAULT 1
+    `;
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_subscriptions_vapid_key_version ON subscriptions(app_id, vapid_key_version)
+    `;
+    await sql`
+      ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS locale VARCHAR(35)
+    `;
+    await sql`
+      ALTER TABLE apps ALTER COLUMN vapid_private_key DROP NOT NULL
+    `;
+    const movedVapidKeys = await sql`
+      INSERT INTO vapid_keys (id, app_id, version, public_key, private_key, status, created_at)
+      SELECT gen_random_uuid(), id, 1, vapid_public_key, vapid_private_key, 'active', created_at
+      FROM apps
+      WHERE vapid_private_key IS NOT NULL
+      ON CONFLICT (app_id, version) DO NOTHING
+      RETURNING id
+    `;
+    await sql`
+      UPDATE apps SET vapid_private_key = NULL WHERE vapid_private_key IS NOT NULL
+    `;
+    console.log(`✓ vapid_keys table ready (${movedVapidKeys.length} keypair(s) moved)`);
+
+    // VAPID private keys are envelope-encrypted with VAPID_MASTER_KEY
+    console.log('Encrypting plaintext VAPID private keys...');
+    const plaintextVapidKeys = await sql`
+      SELECT id, app_id, private_key FROM vapid_keys WHERE private_key NOT LIKE 'enc:%'
+    `;
+    for (const row of plaintextVapidKeys) {
+      const privateKey = row.private_key as string;
+      await sql`
+        UPDATE vapid_keys
+        SET private_key = ${encryptVapidPrivateKey(privateKey, row.app_id as string)}
+        WHERE id = ${row.id as string} AND private_key = ${privateKey}
+      `;
+    }
+    console.log(`✓ ${plaintextVapidKeys.length} VAPID private key(s) encrypted`);
+
+    // Outbox for /api/send, drained by /api/cron/deliveries
+    console.log('Creating notification queue tables...');
+    await sql`
+      CREATE TABLE IF NOT EXISTS notification_jobs (
+        id UUID PRIMARY KEY,
+        app_id UUID NOT NULL REFERENCES apps(id) ON DELETE CASCADE,
+        payload JSONB NOT NULL,
+        payload_hash VARCHAR(64),
+        target JSONB NOT NULL DEFAULT '{}',
+        api_key_id UUID REFERENCES api_keys(id) ON DELETE SET NULL,
+        status VARCHAR(16) NOT NULL DEFAULT 'queued',
+        send_at TIMESTAMPTZ,
+        ttl INTEGER NOT NULL DEFAULT 86400,
+        urgency VARCHAR(8) NOT NULL DEFAULT 'normal',
+        topic VARCHAR(32),
+        total INTEGER NOT NULL DEFAULT 0,
+        sent INTEGER NOT NULL DEFAULT 0,
+        failed INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        completed_at TIMESTAMPTZ
+      )
+    `;
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_notification_jobs_app ON notification_jobs(app_id, created_at)
+    `;
+    await sql`
+      ALTER TABLE notification_jobs ADD COLUMN IF NOT EXISTS payload_hash VARCHAR(64)
+    `;
+    await sql`
+      ALTER TABLE notification_jobs ADD COLUMN IF NOT EXISTS target JSONB NOT NULL DEFAULT '{}'
+    `;
+    await sql`
+      ALTER TABLE notification_jobs
+      ADD COLUMN IF NOT EXISTS api_key_id UUID REFERENCES api_keys(id) ON DELETE SET NULL
+    `;
+    await sql`
+      ALTER TABLE notification_jobs ADD COLUMN IF NOT EXISTS send_at TIMESTAMPTZ
+    `;
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_notification_jobs_scheduled
+      ON notification_jobs(send_at) WHERE status = 'scheduled'
+    `;
+    await sql`
+      ALTER TABLE notification_jobs ADD COLUMN IF NOT EXISTS ttl INTEGER NOT NULL DEFAULT 86400
+    `;
+    await sql`
+      ALTER TABLE notification_jobs ADD COLUMN IF NOT EXISTS urgency VARCHAR(8) NOT NULL DEFAULT 'normal'
+    `;
+    await sql`
+      ALTER TABLE notification_jobs ADD COLUMN IF NOT EXISTS topic VARCHAR(32)
+    `;
+    await sql`
+      ALTER TABLE notification_jobs ADD COLUMN IF NOT EXISTS localized JSONB
+    `;
+    await sql`
+      ALTER TABLE notification_jobs ADD COLUMN IF NOT EXISTS fallback_locale VARCHAR(35)
+    `;
+    await sql`
+      CREATE TABLE IF NOT EXISTS deliveries (
+        id UUID PRIMARY KEY,
+        job_id UUID NOT NULL REFERENCES notification_jobs(id) ON DELETE CASCADE,
+        subscription_id UUID NOT NULL,
+        user_id VARCHAR(255),
+        status VARCHAR(16) NOT NULL DEFAULT 'pending',
+        status_code INTEGER,
+        error TEXT,
+        classification VARCHAR(16),
+        attempts INTEGER NOT NULL DEFAULT 0,
+        locked_until TIMESTAMPTZ,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_deliveries_job ON deliveries(job_id)
+    `;
+    await sql`
+      ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS classification VARCHAR(16)
+    `;
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_deliveries_pending ON deliveries(created_at) WHERE status = 'pending'
+    `;
+    await sql`
+      ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS user_id VARCHAR(255)
+    `;
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_deliveries_user ON deliveries(user_id, job_id)
+    `;
+    await sql`
+      ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS locale VARCHAR(35)
+    `;
+    await sql`
+      CREATE TABLE IF NOT EXISTS delivery_attempts (
+        id UUID PRIMARY KEY,
+        delivery_id UUID NOT NULL REFERENCES deliveries(id) ON DELETE CASCADE,
+        attempt INTEGER NOT NULL,
+        success BOOLEAN NOT NULL,
+        status_code INTEGER,
+        error TEXT,
+        classification VARCHAR(16),
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_delivery_attempts_delivery ON delivery_attempts(delivery_id)
+    `;
+    console.log('✓ notification_jobs, deliveries and delivery_attempts tables ready');
+
+    // Reusable notification text with {{variable}} placeholders
+    console.log('Creating notification_templates table...');
+    await sql`
+      CREATE TABLE IF NOT EXISTS notification_templates (
+        id UUID PRIMARY KEY,
+        app_id UUID NOT NULL REFERENCES apps(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        title TEXT NOT NULL,
+        body TEXT,
+        url TEXT,
+        icon TEXT,
+        actions JSONB,
+        defaults JSONB,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_notification_templates_app ON notification_templates(app_id)
+    `;
+    console.log('✓ notification_templates table ready');
+
+    // Responses to /api/send requests made with an Idempotency-Key
+    console.log('Creating idempotency_keys table...');
+    await sql`
+      CREATE TABLE IF NOT EXISTS idempotency_keys (
+        app_id UUID NOT NULL REFERENCES apps(id) ON DELETE CASCADE,
+        key VARCHAR(255) NOT NULL,
+        request_hash VARCHAR(64) NOT NULL,
+        status_code INTEGER,
+        response JSONB,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        expires_at TIMESTAMPTZ NOT NULL,
+        PRIMARY KEY (app_id, key)
+      )
+    `;
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires ON idempotency_keys(expires_at)
+    `;
+    console.log('✓ idempotency_keys table ready');
+
     // Rate limiting logs
     console.log('Creating rate_limit_logs table...');
     await sql`
@@ -104,6 +396,30 @@ async function migrate() {
     `;
     console.log('✓ rate_limit_logs table ready');
 
+    // Sign-In With Ethereum nonces and sessions
+    console.log('Creating auth tables...');
+    await sql`
+      CREATE TABLE IF NOT EXISTS auth_nonces (
+        nonce VARCHAR(64) PRIMARY KEY,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        expires_at TIMESTAMPTZ NOT NULL
+      )
+    `;
+    await sql`
+      CREATE TABLE IF NOT EXISTS auth_sessions (
+        id UUID PRIMARY KEY,
+        wallet_address VARCHAR(42) NOT NULL,
+        chain_id INTEGER NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        expires_at TIMESTAMPTZ NOT NULL,
+        revoked_at TIMESTAMPTZ
+      )
+    `;
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_auth_sessions_wallet ON auth_sessions(wallet_address)
+    `;
+    console.log('✓ auth_nonces and auth_sessions tables ready');
+
     // Billing preparation table (for future use)
     console.log('Creating usage_logs table (for future billing)...');
     await sql`
@@ -124,8 +440,15 @@ async function migrate() {
     console.log('\n✅ Database migration completed successfully!');
     console.log('\nTables created:');
     console.log('  • apps - Store app configurations and VAPID keys');
+    console.log('  • api_keys - Named, scoped API keys per app');
     console.log('  • subscriptions - Store push subscription endpoints');
+    console.log('  • vapid_keys - Versioned VAPID keypairs per app');
+    console.log('  • notification_jobs / deliveries - Queued notifications and per-recipient pushes');
+    console.log('  • delivery_attempts - Result of every push attempt');
+    console.log('  • notification_templates - Reusable notification text with variables');
+    console.log('  • idempotency_keys - Stored /api/send responses for retried requests');
     console.log('  • rate_limit_logs - Track rate limiting');
+    console.log('  • auth_nonces / auth_sessions - Wallet sign-in');
     console.log('  • usage_logs - Track usage for billing (future)');
     
   } catch (error) {
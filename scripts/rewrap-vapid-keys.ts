@@ -0,0 +1,105 @@
+#!/usr/bin/env tsx
+/**
+ * VAPID Master Key Rotation Script
+ *
+ * Run with: npm run db:rewrap-vapid-keys
+ *
+ * Re-wraps the data key of every VAPID key version with the current
+ * VAPID_MASTER_KEY.
+ *
+ * To rotate the master key:
+ *   1. Set VAPID_MASTER_KEY to the new key and VAPID_MASTER_KEY_PREVIOUS
+ *      to the old one (comma-separate several) and deploy.
+ *   2. Run this script.
+ *   3. Remove VAPID_MASTER_KEY_PREVIOUS.
+ *
+ * The encrypted private keys themselves are not touched. It is safe to
+ * run multiple times; rows already wrapped by the current key are skipped.
+ */
+
+import postgres from 'postgres';
+import {
+  encryptVapidPrivateKey,
+  isEncryptedVapidPrivateKey,
+  needsRewrap,
+  rewrapVapidPrivateKey,
+} from '../lib/vapid-encryption';
+
+const connectionString = process.env.POSTGRES_URL || process.env.DATABASE_URL || '';
+
+if (!connectionString) {
+  console.error('❌ No database connection string found.');
+  console.error('   Set POSTGRES_URL or DATABASE_URL environment variable.');
+  process.exit(1);
+}
+
+if (!process.env.VAPID_MASTER_KEY) {
+  console.error('❌ VAPID_MASTER_KEY is not set.');
+  process.exit(1);
+}
+
+const sql = postgres(connectionString, {
+  ssl: 'require',
+  max: 1,
+});
+
+async function rewrap() {
+  console.log('🔑 Re-wrapping VAPID data keys...\n');
+
+  let rewrapped = 0;
+  let encrypted = 0;
+  let failed = 0;
+
+  try {
+    const rows = await sql`SELECT id, app_id, private_key FROM vapid_keys`;
+
+    for (const row of rows) {
+      const appId = row.app_id as string;
+      const current = row.private_key as string;
+
+      let next: string;
+      try {
+        if (!isEncryptedVapidPrivateKey(current)) {
+          next = encryptVapidPrivateKey(current, appId);
+          encrypted++;
+        } else if (needsRewrap(current)) {
+          next = rewrapVapidPrivateKey(current);
+          rewrapped++;
+        } else {
+          continue;
+        }
+      } catch (error) {
+        console.error(`  ✗ ${appId} (${row.id}): ${error instanceof Error ? error.message : error}`);
+        failed++;
+        continue;
+      }
+
+      // Skip rows that changed since they were read
+      await sql`
+        UPDATE vapid_keys SET private_key = ${next}
+        WHERE id = ${row.id as string} AND private_key = ${current}
+      `;
+    }
+
+    console.log(`✓ ${rewrapped} data key(s) re-wrapped`);
+    console.log(`✓ ${encrypted} plaintext private key(s) encrypted`);
+    console.log(`  ${rows.length - rewrapped - encrypted - failed} already up to date`);
+
+    if (failed > 0) {
+      console.error(`\n❌ ${failed} row(s) could not be re-wrapped.`);
+      console.error('   Make sure VAPID_MASTER_KEY_PREVIOUS lists every old master key.');
+      await sql.end();
+      process.exit(1);
+    }
+
+    console.log('\n✅ All VAPID data keys are wrapped by the current master key.');
+  } catch (error) {
+    console.error('\n❌ Re-wrap failed:', error);
+    process.exit(1);
+  }
+
+  await sql.end();
+  process.exit(0);
+}
+
+rewrap();